@@ -0,0 +1,96 @@
+"use client";
+
+import { createPublicClient, http, type Chain, type PublicClient } from "viem";
+import { base, baseSepolia, arbitrum, optimism, polygon, mainnet } from "viem/chains";
+
+// Chains available when KiroroConfig.chains is not set
+export const DEFAULT_CHAINS: readonly Chain[] = [base, baseSepolia, arbitrum, optimism, polygon, mainnet];
+
+export interface KiroroChainRegistry {
+    /** All supported chains (the default chain first) */
+    chains: readonly Chain[];
+    /** Chain used before the user switches */
+    defaultChain: Chain;
+    /** Look up a supported chain by ID */
+    getChain: (chainId: number) => Chain | undefined;
+    /** Whether a chain ID is supported */
+    isSupported: (chainId: number) => boolean;
+    /** Cached public client for a supported chain (falls back to the default chain) */
+    getPublicClient: (chainId?: number) => PublicClient;
+}
+
+/**
+ * Builds the chain registry used across the SDK (Privy, wallet hooks, public clients, wagmi).
+ *
+ * Accepts any viem `Chain`, including custom L3s or a local anvil chain.
+ */
+export function createChainRegistry({
+    chains,
+    defaultChain,
+}: {
+    chains?: readonly Chain[];
+    defaultChain?: Chain;
+} = {}): KiroroChainRegistry {
+    const configured = chains && chains.length > 0 ? chains : DEFAULT_CHAINS;
+    const primary = defaultChain ?? configured[0];
+
+    // Privy requires the default chain to be part of the supported chains
+    const all = [primary, ...configured.filter((chain) => chain.id !== primary.id)];
+    const byId = new Map(all.map((chain) => [chain.id, chain]));
+    const publicClients = new Map<number, PublicClient>();
+
+    const getPublicClient = (chainId?: number): PublicClient => {
+        const chain = (chainId !== undefined && byId.get(chainId)) || primary;
+        let client = publicClients.get(chain.id);
+        if (!client) {
+            client = createPublicClient({
+                chain,
+                transport: http(),
+                // Contract reads made in the same tick are sent as one multicall
+                batch: { multicall: true },
+            }) as PublicClient;
+            publicClients.set(chain.id, client);
+        }
+        return client;
+    };
+
+    return {
+        chains: all,
+        defaultChain: primary,
+        getChain: (chainId) => byId.get(chainId),
+        isSupported: (chainId) => byId.has(chainId),
+        getPublicClient,
+    };
+}
+
+/**
+ * Stable serialization of the chain fields the registry depends on, so inline
+ * chain configs (new objects every render) only rebuild it when their content changes
+ */
+export function chainConfigKey(chains: readonly (Chain | undefined)[]): string {
+    return JSON.stringify(
+        chains.map((chain) => chain && {
+            id: chain.id,
+            name: chain.name,
+            nativeCurrency: chain.nativeCurrency,
+            rpcUrls: chain.rpcUrls,
+            blockExplorers: chain.blockExplorers,
+            contracts: chain.contracts,
+            testnet: chain.testnet,
+        }),
+        (_key, value) => typeof value === "bigint" ? value.toString() : value
+    );
+}
+
+// Registry used when hooks run outside a KiroroProvider
+export const defaultChainRegistry = createChainRegistry({ defaultChain: base });
+
+// Supported chains mapping (default chains)
+export const SUPPORTED_CHAINS = {
+    [base.id]: base,
+    [baseSepolia.id]: baseSepolia,
+    [arbitrum.id]: arbitrum,
+    [optimism.id]: optimism,
+    [polygon.id]: polygon,
+    [mainnet.id]: mainnet,
+} as const;
@@ -0,0 +1,33 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { KiroroConfig } from "./types";
+import { defaultChainRegistry, type KiroroChainRegistry } from "./chains";
+
+/**
+ * Internal context shared between KiroroProvider and the wallet hooks
+ */
+export interface KiroroConfigContextType {
+    config: KiroroConfig;
+    backendUrl: string;
+    /** Project tier from validate-key (null until validated) */
+    tier: string | null;
+    /** Chain registry built from config.chains / config.defaultChain */
+    chains: KiroroChainRegistry;
+}
+
+export const KiroroConfigContext = createContext<KiroroConfigContextType | null>(null);
+
+/**
+ * Returns the surrounding KiroroProvider's configuration, or null outside a provider
+ */
+export function useKiroroConfig(): KiroroConfigContextType | null {
+    return useContext(KiroroConfigContext);
+}
+
+/**
+ * Returns the chain registry of the surrounding KiroroProvider (or the default chains)
+ */
+export function useKiroroChains(): KiroroChainRegistry {
+    return useContext(KiroroConfigContext)?.chains ?? defaultChainRegistry;
+}
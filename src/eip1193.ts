@@ -0,0 +1,273 @@
+import {
+    type EIP1193RequestFn,
+    type TransactionReceipt,
+    hexToBigInt,
+    isHex,
+    numberToHex,
+} from "viem";
+import { getWalletBridgeState, subscribeWalletBridge, type WalletBridgeState } from "./wallet-bridge";
+import { KiroroError, type KiroroErrorCode } from "./errors";
+import type { KiroroCall, KiroroWalletContextType, TypedDataDefinition } from "./types";
+
+// Only log in development
+const IS_DEV = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
+
+// How long eth_requestAccounts waits for KiroroProvider to finish logging in
+const REQUEST_ACCOUNTS_TIMEOUT = 60 * 1000;
+
+// EIP-5792 capabilities advertised for each supported chain
+export const KIRORO_WALLET_CAPABILITIES = {
+    atomic: { status: "supported" },
+    atomicBatch: { supported: true },
+} as const;
+
+// ============================================
+// EIP-1193 provider
+// ============================================
+
+type ProviderEvent = "accountsChanged" | "chainChanged" | "connect" | "disconnect";
+type ProviderListener = (...args: any[]) => void;
+
+interface RequestArguments {
+    method: string;
+    params?: readonly unknown[] | object;
+}
+
+export interface KiroroEip1193Provider {
+    request: (args: RequestArguments) => Promise<any>;
+    on: (event: ProviderEvent, listener: ProviderListener) => void;
+    removeListener: (event: ProviderEvent, listener: ProviderListener) => void;
+}
+
+/**
+ * Error with an EIP-1193 / EIP-1474 error code
+ */
+class ProviderRpcError extends Error {
+    code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.name = "ProviderRpcError";
+        this.code = code;
+    }
+}
+
+// EIP-1193 codes for wallet failures raised by the SDK
+const RPC_ERROR_CODES: Partial<Record<KiroroErrorCode, number>> = {
+    USER_REJECTED: 4001,
+    WALLET_NOT_READY: 4100,
+    CHAIN_NOT_SUPPORTED: 4902,
+};
+
+function toCallReceipt(receipt: TransactionReceipt) {
+    return {
+        logs: receipt.logs.map((log) => ({ address: log.address, data: log.data, topics: log.topics })),
+        status: receipt.status === "success" ? "0x1" : "0x0",
+        blockHash: receipt.blockHash,
+        blockNumber: numberToHex(receipt.blockNumber),
+        gasUsed: numberToHex(receipt.gasUsed),
+        transactionHash: receipt.transactionHash,
+    };
+}
+
+function toCall(call: { to?: `0x${string}`; value?: `0x${string}`; data?: `0x${string}` }): KiroroCall {
+    if (!call.to) {
+        throw new ProviderRpcError(-32602, "[Kiroro] Contract deployment is not supported.");
+    }
+    return {
+        to: call.to,
+        value: call.value ? hexToBigInt(call.value) : undefined,
+        data: call.data,
+    };
+}
+
+/**
+ * Creates an EIP-1193 provider backed by the Kiroro smart wallet of the mounted KiroroProvider.
+ *
+ * Signing and sending go through useKiroroWallet; other JSON-RPC reads are forwarded
+ * to the public client of the current chain.
+ */
+export function createKiroroEip1193Provider(): KiroroEip1193Provider {
+    const listeners = new Map<ProviderEvent, Set<ProviderListener>>();
+
+    const emit = (event: ProviderEvent, ...args: unknown[]) => {
+        listeners.get(event)?.forEach((listener) => listener(...args));
+    };
+
+    // Forward wallet changes to the provider's listeners
+    const onWalletChange = (state: WalletBridgeState, previous: WalletBridgeState) => {
+        const address = state.wallet?.address;
+        const previousAddress = previous.wallet?.address;
+        if (address !== previousAddress) {
+            emit("accountsChanged", address ? [address] : []);
+        }
+
+        const chainId = state.wallet?.chainId;
+        if (chainId !== undefined && chainId !== previous.wallet?.chainId) {
+            if (!previous.wallet) emit("connect", { chainId: numberToHex(chainId) });
+            else emit("chainChanged", numberToHex(chainId));
+        }
+    };
+
+    // Subscribed to the bridge only while the provider has listeners,
+    // so a disconnected connector leaves nothing behind
+    let unsubscribe: (() => void) | undefined;
+    const syncSubscription = () => {
+        const hasListeners = [...listeners.values()].some((set) => set.size > 0);
+        if (hasListeners && !unsubscribe) {
+            unsubscribe = subscribeWalletBridge(onWalletChange);
+        } else if (!hasListeners && unsubscribe) {
+            unsubscribe();
+            unsubscribe = undefined;
+        }
+    };
+
+    const requireWallet = (): KiroroWalletContextType => {
+        const { wallet } = getWalletBridgeState();
+        if (!wallet) {
+            throw new ProviderRpcError(4100, "[Kiroro] Wallet not ready. Please authenticate first.");
+        }
+        return wallet;
+    };
+
+    const waitForWallet = () =>
+        new Promise<KiroroWalletContextType>((resolve, reject) => {
+            const { wallet } = getWalletBridgeState();
+            if (wallet) return resolve(wallet);
+
+            const timer = setTimeout(() => {
+                stop();
+                reject(new ProviderRpcError(4001, "[Kiroro] Timed out waiting for the user to log in."));
+            }, REQUEST_ACCOUNTS_TIMEOUT);
+
+            const stop = subscribeWalletBridge((state) => {
+                if (!state.wallet) return;
+                clearTimeout(timer);
+                stop();
+                resolve(state.wallet);
+            });
+        });
+
+    const currentChainId = () => {
+        const { wallet, chains } = getWalletBridgeState();
+        return wallet?.chainId ?? chains.defaultChain.id;
+    };
+
+    const handleRequest = async ({ method, params }: RequestArguments): Promise<any> => {
+        const args = (Array.isArray(params) ? params : []) as any[];
+
+        if (IS_DEV) console.log("[Kiroro] EIP-1193 request:", method);
+
+        switch (method) {
+            case "eth_accounts": {
+                const address = getWalletBridgeState().wallet?.address;
+                return address ? [address] : [];
+            }
+
+            case "eth_requestAccounts": {
+                const wallet = await waitForWallet();
+                return [wallet.address];
+            }
+
+            case "eth_chainId":
+                return numberToHex(currentChainId());
+
+            case "eth_sendTransaction": {
+                const [tx] = args;
+                return requireWallet().sendTransaction(toCall(tx));
+            }
+
+            case "personal_sign": {
+                const [message] = args;
+                // Hex messages are signed as raw bytes, so binary payloads keep their exact hash
+                return requireWallet().signMessage(isHex(message) ? { raw: message } : message);
+            }
+
+            case "eth_signTypedData_v4": {
+                const [, data] = args;
+                const typedData = (typeof data === "string" ? JSON.parse(data) : data) as TypedDataDefinition;
+                // EIP712Domain is derived from the domain by the signer
+                const { EIP712Domain: _domain, ...types } = typedData.types;
+                return requireWallet().signTypedData({ ...typedData, types });
+            }
+
+            case "wallet_switchEthereumChain": {
+                const [{ chainId }] = args;
+                const id = Number(chainId);
+                if (!getWalletBridgeState().chains.isSupported(id)) {
+                    throw new ProviderRpcError(4902, `[Kiroro] Chain ${id} is not supported.`);
+                }
+                await requireWallet().switchChain(id);
+                return null;
+            }
+
+            case "wallet_getCapabilities":
+                return Object.fromEntries(
+                    getWalletBridgeState().chains.chains.map((chain) => [numberToHex(chain.id), KIRORO_WALLET_CAPABILITIES])
+                );
+
+            case "wallet_sendCalls": {
+                const [{ calls, chainId }] = args;
+                const wallet = requireWallet();
+                if (chainId && Number(chainId) !== wallet.chainId) {
+                    throw new ProviderRpcError(4902, `[Kiroro] Switch to chain ${Number(chainId)} before sending calls.`);
+                }
+                return wallet.sendCalls({ calls: calls.map(toCall) });
+            }
+
+            case "wallet_getCallsStatus": {
+                const [id] = args;
+                const status = await requireWallet().getCallsStatus(id);
+                return {
+                    version: "2.0.0",
+                    id: status.id,
+                    chainId: numberToHex(status.chainId),
+                    atomic: status.atomic,
+                    // EIP-5792 status codes: 100 pending, 200 confirmed, 500 reverted
+                    status: status.status === "pending" ? 100 : status.status === "success" ? 200 : 500,
+                    receipts: status.receipts?.map(toCallReceipt),
+                };
+            }
+
+            case "eth_sign":
+            case "eth_signTransaction":
+            case "eth_sendRawTransaction":
+                throw new ProviderRpcError(4200, `[Kiroro] ${method} is not supported by the smart wallet.`);
+
+            default: {
+                // Reads are served by the public client of the current chain
+                const publicClient = getWalletBridgeState().chains.getPublicClient(currentChainId());
+                // Forwarded as-is: the method is not necessarily in viem's public RPC schema
+                const forward: EIP1193RequestFn = publicClient.request;
+                return forward({ method, params });
+            }
+        }
+    };
+
+    /**
+     * Serve a request, reporting SDK failures with their EIP-1193 error code
+     */
+    const request = async (args: RequestArguments): Promise<any> => {
+        try {
+            return await handleRequest(args);
+        } catch (err) {
+            if (err instanceof KiroroError && RPC_ERROR_CODES[err.code] !== undefined) {
+                throw new ProviderRpcError(RPC_ERROR_CODES[err.code]!, err.message);
+            }
+            throw err;
+        }
+    };
+
+    return {
+        request,
+        on: (event, listener) => {
+            if (!listeners.has(event)) listeners.set(event, new Set());
+            listeners.get(event)!.add(listener);
+            syncSubscription();
+        },
+        removeListener: (event, listener) => {
+            listeners.get(event)?.delete(listener);
+            syncSubscription();
+        },
+    };
+}
@@ -0,0 +1,108 @@
+import type { KiroroAuthErrorCode } from "./threads-auth";
+
+/**
+ * Stable codes to branch on instead of error messages
+ */
+export type KiroroErrorCode =
+    | "WALLET_NOT_READY"
+    | "NOT_AUTHENTICATED"
+    | "USER_REJECTED"
+    | "CHAIN_NOT_SUPPORTED"
+    | "POPUP_BLOCKED"
+    | "INVALID_API_KEY"
+    | "LIMIT_EXCEEDED"
+    | "INSUFFICIENT_FUNDS"
+    | "PAYMASTER_REJECTED"
+    | "TRANSACTION_REVERTED"
+    | "SOLANA_NOT_CONNECTED"
+    | "PERMISSION_DENIED"
+    | "THREADS_API_ERROR"
+    | "NETWORK_ERROR"
+    | "AUTH_FAILED"
+    | "INVALID_REQUEST"
+    | "UNKNOWN"
+    | KiroroAuthErrorCode;
+
+/**
+ * Base class of every error thrown by the SDK
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await writeContract(request);
+ * } catch (err) {
+ *   if (isKiroroError(err, "USER_REJECTED")) return;
+ *   throw err;
+ * }
+ * ```
+ */
+export class KiroroError<TCode extends string = KiroroErrorCode> extends Error {
+    code: TCode;
+    /** Underlying Privy / viem / fetch error */
+    cause?: unknown;
+
+    constructor(code: TCode, message: string, cause?: unknown) {
+        super(`[Kiroro] ${message}`);
+        this.name = "KiroroError";
+        this.code = code;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Whether an error is a KiroroError (optionally with one of the given codes)
+ */
+export function isKiroroError<TCode extends string = KiroroErrorCode>(
+    error: unknown,
+    ...codes: TCode[]
+): error is KiroroError<TCode> {
+    return error instanceof KiroroError && (codes.length === 0 || codes.includes(error.code as TCode));
+}
+
+// EIP-1193 provider error codes
+const USER_REJECTED_RPC_CODE = 4001;
+const UNRECOGNIZED_CHAIN_RPC_CODE = 4902;
+
+const USER_REJECTED_PATTERN = /user (rejected|denied|cancel+ed|closed)|rejected by (the )?user|user_rejected/i;
+const INSUFFICIENT_FUNDS_PATTERN = /insufficient funds|AA21/i;
+
+/**
+ * Error itself followed by its `cause` chain
+ */
+function causeChain(error: unknown): any[] {
+    const chain: any[] = [];
+    let current: any = error;
+    while (current && chain.length < 10 && !chain.includes(current)) {
+        chain.push(current);
+        current = current.cause;
+    }
+    return chain;
+}
+
+/**
+ * Wraps an unknown failure (Privy, viem, fetch) in a KiroroError, classifying it where possible.
+ * KiroroErrors (also when found in the cause chain) are returned unchanged.
+ */
+export function toKiroroError(error: unknown, fallbackCode: KiroroErrorCode = "UNKNOWN"): KiroroError {
+    const chain = causeChain(error);
+
+    const wrapped = chain.find((e) => e instanceof KiroroError);
+    if (wrapped) return wrapped;
+
+    const message = (error as any)?.shortMessage || (error as any)?.message || String(error);
+    const matches = (test: (e: any) => boolean) => chain.some((e) => e && typeof e === "object" && test(e));
+
+    if (matches((e) => e.code === USER_REJECTED_RPC_CODE || e.name === "UserRejectedRequestError" || USER_REJECTED_PATTERN.test(e.message ?? ""))) {
+        return new KiroroError("USER_REJECTED", "The request was rejected in the wallet.", error);
+    }
+    if (matches((e) => e.name === "InsufficientFundsError" || INSUFFICIENT_FUNDS_PATTERN.test(e.message ?? ""))) {
+        return new KiroroError("INSUFFICIENT_FUNDS", "The wallet has insufficient funds for this transaction.", error);
+    }
+    if (matches((e) => e.code === UNRECOGNIZED_CHAIN_RPC_CODE || e.name === "ChainNotFoundError" || e.name === "ChainMismatchError")) {
+        return new KiroroError("CHAIN_NOT_SUPPORTED", message, error);
+    }
+    if (matches((e) => e.name === "HttpRequestError" || e.name === "TimeoutError" || (e instanceof TypeError && /fetch|network/i.test(e.message)))) {
+        return new KiroroError("NETWORK_ERROR", message, error);
+    }
+    return new KiroroError(fallbackCode, message, error);
+}
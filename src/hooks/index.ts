@@ -1,5 +1,21 @@
 // Hook exports
 export { useKiroroToken } from "./useKiroroToken";
 export { useKiroroNFT } from "./useKiroroNFT";
+export { useKiroroMultiToken } from "./useKiroroMultiToken";
+export { useKiroroPermit2 } from "./useKiroroPermit2";
+export { useKiroroApprovals } from "./useKiroroApprovals";
+export type { UseKiroroApprovalsOptions } from "./useKiroroApprovals";
 export { useKiroroClient } from "./useKiroroClient";
-export { useKiroroEvents, kiroroEvents } from "./useKiroroEvents";
+export { useKiroroRead } from "./useKiroroRead";
+export type { UseKiroroReadOptions } from "./useKiroroRead";
+export { useKiroroPortfolio } from "./useKiroroPortfolio";
+export type { UseKiroroPortfolioOptions } from "./useKiroroPortfolio";
+export { useKiroroSiwe } from "./useKiroroSiwe";
+export { useThreadsProfile, useThreadsPosts, useThreadsReplies, useThreadsPublish } from "./useThreads";
+export {
+    useKiroroEvents,
+    kiroroEvents,
+    createKiroroEventBus,
+    KiroroEventsProvider,
+} from "./useKiroroEvents";
+export type { KiroroEventBus, KiroroEventRecord, SubscribeOptions } from "./useKiroroEvents";
@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { erc20Abi, formatUnits, maxUint256, type Hash, type PublicClient } from "viem";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains } from "../context";
+import { useKiroroEventBus } from "./useKiroroEvents";
+import { KiroroError, toKiroroError } from "../errors";
+import { fetchRead } from "../read-cache";
+import { scanLogs, type LogScanOptions } from "../logs";
+import type { TokenApproval } from "../types";
+
+const approvalEvent = erc20Abi.find((item) => item.type === "event" && item.name === "Approval")!;
+
+export interface UseKiroroApprovalsOptions extends LogScanOptions {
+    /** Only look at these tokens (default: every token the user approved) */
+    tokens?: readonly `0x${string}`[];
+    /** Chain to scan (default: the wallet's current chain) */
+    chainId?: number;
+    /** Set to false to skip scanning */
+    enabled?: boolean;
+}
+
+type FoundApproval = { token: `0x${string}`; spender: `0x${string}`; blockNumber: bigint };
+
+/**
+ * Latest Approval event per token and spender for an owner, scanned in chunks
+ */
+async function findApprovals(
+    publicClient: PublicClient,
+    owner: `0x${string}`,
+    tokens: readonly `0x${string}`[] | undefined,
+    fromBlock: bigint | undefined,
+    blockRange: bigint | undefined
+): Promise<{ found: Map<string, FoundApproval>; isPartial: boolean }> {
+    const { logs, isPartial } = await scanLogs(
+        publicClient,
+        (range) => publicClient.getLogs({
+            address: tokens && tokens.length > 0 ? [...tokens] : undefined,
+            event: approvalEvent,
+            args: { owner },
+            ...range,
+        }),
+        { fromBlock, blockRange }
+    );
+
+    const found = new Map<string, FoundApproval>();
+    for (const log of logs) {
+        // ERC-721 Approval shares the signature but indexes the token ID as well
+        if (log.topics.length !== 3 || !log.args.spender || log.blockNumber === null) continue;
+        const key = `${log.address.toLowerCase()}:${log.args.spender.toLowerCase()}`;
+        found.set(key, { token: log.address, spender: log.args.spender, blockNumber: log.blockNumber });
+    }
+    return { found, isPartial };
+}
+
+/**
+ * Outstanding ERC-20 approvals of the user, found from `Approval` logs and checked against
+ * the current allowances. Revoke them one by one, or several in one user operation.
+ *
+ * Without `fromBlock` only the last 100,000 blocks are scanned and `isPartial` is true:
+ * older approvals are not listed. Pass the wallet's deployment block to list them all.
+ *
+ * @example
+ * ```tsx
+ * import { useKiroroApprovals } from "@kirorolabs/sdk";
+ *
+ * function Approvals() {
+ *   const { approvals, revoke, isLoading } = useKiroroApprovals();
+ *   return (
+ *     <ul>
+ *       {approvals.map((a) => (
+ *         <li key={`${a.token}:${a.spender}`}>
+ *           {a.formatted} {a.symbol} to {a.spender}
+ *           <button onClick={() => revoke(a)}>Revoke</button>
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useKiroroApprovals(options: UseKiroroApprovalsOptions = {}) {
+    const { fromBlock, blockRange, enabled = true } = options;
+    const { address, chainId: walletChainId, writeContract, writeContracts, isReady } = useKiroroWallet();
+    const chains = useKiroroChains();
+    const events = useKiroroEventBus();
+
+    const chainId = options.chainId ?? walletChainId;
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
+
+    // tokens is usually a new array on every render: only react when its content changes
+    const tokensKey = options.tokens?.join(",");
+    const tokens = useMemo(() => options.tokens, [tokensKey]);
+
+    const [approvals, setApprovals] = useState<TokenApproval[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+    const [isPartial, setIsPartial] = useState(false);
+
+    // Ignore results that arrive after the options changed
+    const requestId = useRef(0);
+
+    const load = useCallback(async (): Promise<TokenApproval[]> => {
+        if (!enabled || !address) return [];
+
+        const id = ++requestId.current;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const scan = await findApprovals(publicClient, address, tokens, fromBlock, blockRange);
+            const found = [...scan.found.values()];
+
+            // Reads in the same tick are batched into one multicall
+            const results = await Promise.all(found.map(async ({ token, spender, blockNumber }): Promise<TokenApproval> => {
+                const readMetadata = <T,>(functionName: "symbol" | "decimals") =>
+                    fetchRead<T>(
+                        { chainId, address: token, functionName },
+                        () => publicClient.readContract({ address: token, abi: erc20Abi, functionName }) as Promise<T>,
+                        { cacheTime: Infinity }
+                    ).catch(() => undefined);
+
+                const [allowance, symbol, decimals] = await Promise.all([
+                    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "allowance", args: [address, spender] }),
+                    readMetadata<string>("symbol"),
+                    readMetadata<number>("decimals"),
+                ]);
+                const isUnlimited = allowance === maxUint256;
+                return {
+                    chainId,
+                    token,
+                    spender,
+                    allowance,
+                    isUnlimited,
+                    symbol,
+                    decimals,
+                    formatted: isUnlimited ? "unlimited" : decimals !== undefined ? formatUnits(allowance, decimals) : undefined,
+                    blockNumber,
+                };
+            }));
+
+            const outstanding = results.filter((approval) => approval.allowance > 0n);
+            if (id === requestId.current) {
+                setApprovals(outstanding);
+                setIsPartial(scan.isPartial);
+            }
+            return outstanding;
+        } catch (err) {
+            if (id === requestId.current) {
+                console.error("[Kiroro] Failed to list approvals:", err);
+                setError(toKiroroError(err, "NETWORK_ERROR"));
+            }
+            return [];
+        } finally {
+            if (id === requestId.current) setIsLoading(false);
+        }
+    }, [enabled, address, publicClient, chainId, tokens, fromBlock, blockRange]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    // Scan again once a Kiroro transaction confirms
+    useEffect(() => {
+        return events.subscribe("onTransactionSent", ({ hash }) => {
+            chains.getPublicClient(walletChainId).waitForTransactionReceipt({ hash })
+                .then(() => load())
+                .catch(() => {
+                    // Receipt not found: refetch picks the change up
+                });
+        });
+    }, [events, chains, walletChainId, load]);
+
+    /**
+     * Set one or more allowances back to zero (several are revoked in one user operation)
+     */
+    const revoke = useCallback(
+        async (approval: TokenApproval | readonly TokenApproval[]): Promise<Hash> => {
+            if (!isReady) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            const list = Array.isArray(approval) ? approval : [approval as TokenApproval];
+            if (list.length === 0) {
+                throw new KiroroError("INVALID_REQUEST", "Nothing to revoke");
+            }
+            if (list.some((a) => a.chainId !== walletChainId)) {
+                throw new KiroroError("CHAIN_NOT_SUPPORTED", "Switch to the approval's chain before revoking it");
+            }
+
+            if (list.length === 1) {
+                const [{ token, spender }] = list;
+                return writeContract({ address: token, abi: erc20Abi, functionName: "approve", args: [spender, 0n] });
+            }
+            const { id } = await writeContracts({
+                contracts: list.map(({ token, spender }) => ({
+                    address: token,
+                    abi: erc20Abi,
+                    functionName: "approve",
+                    args: [spender, 0n],
+                })),
+            });
+            return id as Hash;
+        },
+        [isReady, walletChainId, writeContract, writeContracts]
+    );
+
+    /**
+     * Scan again
+     */
+    const refetch = useCallback(() => load(), [load]);
+
+    return { approvals, isPartial, isLoading, error, revoke, refetch };
+}
@@ -1,10 +1,9 @@
 "use client";
 
 import { useMemo } from "react";
-import { createPublicClient, http, type PublicClient } from "viem";
-import { base } from "viem/chains";
+import type { PublicClient } from "viem";
 import { useSmartWallets } from "@privy-io/react-auth/smart-wallets";
-import { SUPPORTED_CHAINS } from "../wallet";
+import { useKiroroChains } from "../context";
 
 interface KiroroClientResult {
     /** Public client for read operations */
@@ -38,17 +37,12 @@ interface KiroroClientResult {
  */
 export function useKiroroClient(): KiroroClientResult {
     const { client } = useSmartWallets();
+    const chains = useKiroroChains();
 
-    const chainId = client?.chain?.id ?? base.id;
+    const chainId = client?.chain?.id ?? chains.defaultChain.id;
 
-    // Create public client for read operations
-    const publicClient = useMemo(() => {
-        const chain = SUPPORTED_CHAINS[chainId as keyof typeof SUPPORTED_CHAINS] ?? base;
-        return createPublicClient({
-            chain,
-            transport: http(),
-        });
-    }, [chainId]);
+    // Public client for read operations (shared per chain by the registry)
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
 
     const isReady = !!client && !!client.account;
 
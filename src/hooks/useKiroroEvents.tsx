@@ -1,9 +1,9 @@
 "use client";
 
-import { useEffect, useRef, useCallback } from "react";
+import React, { createContext, useContext, useMemo, useCallback } from "react";
 import type { Hash, TransactionReceipt } from "viem";
 
-type TransactionCallback = (data: { hash: Hash }) => void;
+type TransactionCallback = (data: { hash: Hash; to?: readonly `0x${string}`[] }) => void;
 type ReceiptCallback = (data: { hash: Hash; receipt: TransactionReceipt }) => void;
 type ErrorCallback = (data: { hash?: Hash; error: Error }) => void;
 type ChainCallback = (data: { chainId: number }) => void;
@@ -17,33 +17,134 @@ interface EventCallbacks {
     onWalletCreated: Set<WalletCallback>;
 }
 
-// Global event emitter for Kiroro events
-const eventCallbacks: EventCallbacks = {
-    onTransactionSent: new Set(),
-    onTransactionConfirmed: new Set(),
-    onTransactionFailed: new Set(),
-    onChainChanged: new Set(),
-    onWalletCreated: new Set(),
-};
-
-// Event emitter functions (used internally by other hooks)
-export const kiroroEvents = {
-    emitTransactionSent: (hash: Hash) => {
-        eventCallbacks.onTransactionSent.forEach((cb) => cb({ hash }));
-    },
-    emitTransactionConfirmed: (hash: Hash, receipt: TransactionReceipt) => {
-        eventCallbacks.onTransactionConfirmed.forEach((cb) => cb({ hash, receipt }));
-    },
-    emitTransactionFailed: (error: Error, hash?: Hash) => {
-        eventCallbacks.onTransactionFailed.forEach((cb) => cb({ hash, error }));
-    },
-    emitChainChanged: (chainId: number) => {
-        eventCallbacks.onChainChanged.forEach((cb) => cb({ chainId }));
-    },
-    emitWalletCreated: (address: `0x${string}`) => {
-        eventCallbacks.onWalletCreated.forEach((cb) => cb({ address }));
-    },
-};
+interface EventPayloads {
+    /** `to`: contracts / recipients called by the transaction */
+    onTransactionSent: { hash: Hash; to?: readonly `0x${string}`[] };
+    onTransactionConfirmed: { hash: Hash; receipt: TransactionReceipt };
+    onTransactionFailed: { hash?: Hash; error: Error };
+    onChainChanged: { chainId: number };
+    onWalletCreated: { address: `0x${string}` };
+}
+
+type KiroroEventName = keyof EventCallbacks;
+type EventPayload<K extends KiroroEventName> = EventPayloads[K];
+type EventCallback<K extends KiroroEventName> = (data: EventPayload<K>) => void;
+
+/** A past event kept in the replay buffer */
+export interface KiroroEventRecord<K extends KiroroEventName = KiroroEventName> {
+    name: K;
+    data: EventPayload<K>;
+    timestamp: number;
+}
+
+export interface SubscribeOptions {
+    /** Immediately replay buffered events of this type to the new subscriber */
+    replay?: boolean;
+}
+
+export interface KiroroEventBus {
+    emitTransactionSent: (hash: Hash, to?: readonly `0x${string}`[]) => void;
+    emitTransactionConfirmed: (hash: Hash, receipt: TransactionReceipt) => void;
+    emitTransactionFailed: (error: Error, hash?: Hash) => void;
+    emitChainChanged: (chainId: number) => void;
+    emitWalletCreated: (address: `0x${string}`) => void;
+    subscribe: <K extends KiroroEventName>(
+        name: K,
+        callback: EventCallback<K>,
+        options?: SubscribeOptions
+    ) => () => void;
+    /** Recent events, oldest first */
+    getRecentEvents: () => readonly KiroroEventRecord[];
+}
+
+// Default number of events kept for late subscribers
+const DEFAULT_REPLAY_BUFFER_SIZE = 50;
+
+/**
+ * Creates an isolated event bus. KiroroProvider creates one per provider instance.
+ */
+export function createKiroroEventBus(
+    { replayBufferSize = DEFAULT_REPLAY_BUFFER_SIZE }: { replayBufferSize?: number } = {}
+): KiroroEventBus {
+    const eventCallbacks: EventCallbacks = {
+        onTransactionSent: new Set(),
+        onTransactionConfirmed: new Set(),
+        onTransactionFailed: new Set(),
+        onChainChanged: new Set(),
+        onWalletCreated: new Set(),
+    };
+    const buffer: KiroroEventRecord[] = [];
+
+    const emit = <K extends KiroroEventName>(name: K, data: EventPayload<K>) => {
+        if (replayBufferSize > 0) {
+            buffer.push({ name, data, timestamp: Date.now() } as KiroroEventRecord);
+            if (buffer.length > replayBufferSize) buffer.shift();
+        }
+        (eventCallbacks[name] as Set<(data: EventPayload<K>) => void>).forEach((cb) => {
+            try {
+                cb(data);
+            } catch (err) {
+                console.error(`[Kiroro] Event listener for ${name} threw:`, err);
+            }
+        });
+    };
+
+    return {
+        emitTransactionSent: (hash, to) => emit("onTransactionSent", { hash, to }),
+        emitTransactionConfirmed: (hash, receipt) => emit("onTransactionConfirmed", { hash, receipt }),
+        emitTransactionFailed: (error, hash) => emit("onTransactionFailed", { hash, error }),
+        emitChainChanged: (chainId) => emit("onChainChanged", { chainId }),
+        emitWalletCreated: (address) => emit("onWalletCreated", { address }),
+
+        subscribe: (name, callback, options = {}) => {
+            const callbacks = eventCallbacks[name] as Set<typeof callback>;
+            callbacks.add(callback);
+
+            if (options.replay) {
+                buffer
+                    .filter((record) => record.name === name)
+                    .forEach((record) => (callback as (data: unknown) => void)(record.data));
+            }
+
+            return () => {
+                callbacks.delete(callback);
+            };
+        },
+
+        getRecentEvents: () => buffer.slice(),
+    };
+}
+
+// Fallback bus used when hooks run outside a KiroroProvider
+export const kiroroEvents = createKiroroEventBus();
+
+const KiroroEventsContext = createContext<KiroroEventBus | null>(null);
+
+/**
+ * Scopes Kiroro events to a subtree. Mounted automatically by KiroroProvider.
+ */
+export function KiroroEventsProvider({
+    children,
+    replayBufferSize,
+}: {
+    children: React.ReactNode;
+    replayBufferSize?: number;
+}) {
+    const bus = useMemo(() => createKiroroEventBus({ replayBufferSize }), [replayBufferSize]);
+
+    return (
+        <KiroroEventsContext.Provider value={bus}>
+            {children}
+        </KiroroEventsContext.Provider>
+    );
+}
+
+/**
+ * Returns the event bus of the nearest KiroroProvider (used internally to emit events)
+ */
+export function useKiroroEventBus(): KiroroEventBus {
+    return useContext(KiroroEventsContext) ?? kiroroEvents;
+}
 
 /**
  * Hook to subscribe to Kiroro wallet events
@@ -64,9 +165,10 @@ export const kiroroEvents = {
  *       console.log("Transaction confirmed:", hash, receipt.status);
  *     });
  *     
+ *     // Pass { replay: true } to also receive events emitted before subscribing
  *     const unsubFailed = onTransactionFailed(({ error }) => {
  *       console.error("Transaction failed:", error);
- *     });
+ *     }, { replay: true });
  *     
  *     return () => {
  *       unsubSent();
@@ -80,55 +182,52 @@ export const kiroroEvents = {
  * ```
  */
 export function useKiroroEvents() {
+    const bus = useKiroroEventBus();
+
     /**
      * Subscribe to transaction sent events
      */
-    const onTransactionSent = useCallback((callback: TransactionCallback) => {
-        eventCallbacks.onTransactionSent.add(callback);
-        return () => {
-            eventCallbacks.onTransactionSent.delete(callback);
-        };
-    }, []);
+    const onTransactionSent = useCallback(
+        (callback: TransactionCallback, options?: SubscribeOptions) =>
+            bus.subscribe("onTransactionSent", callback, options),
+        [bus]
+    );
 
     /**
      * Subscribe to transaction confirmed events
      */
-    const onTransactionConfirmed = useCallback((callback: ReceiptCallback) => {
-        eventCallbacks.onTransactionConfirmed.add(callback);
-        return () => {
-            eventCallbacks.onTransactionConfirmed.delete(callback);
-        };
-    }, []);
+    const onTransactionConfirmed = useCallback(
+        (callback: ReceiptCallback, options?: SubscribeOptions) =>
+            bus.subscribe("onTransactionConfirmed", callback, options),
+        [bus]
+    );
 
     /**
      * Subscribe to transaction failed events
      */
-    const onTransactionFailed = useCallback((callback: ErrorCallback) => {
-        eventCallbacks.onTransactionFailed.add(callback);
-        return () => {
-            eventCallbacks.onTransactionFailed.delete(callback);
-        };
-    }, []);
+    const onTransactionFailed = useCallback(
+        (callback: ErrorCallback, options?: SubscribeOptions) =>
+            bus.subscribe("onTransactionFailed", callback, options),
+        [bus]
+    );
 
     /**
      * Subscribe to chain changed events
      */
-    const onChainChanged = useCallback((callback: ChainCallback) => {
-        eventCallbacks.onChainChanged.add(callback);
-        return () => {
-            eventCallbacks.onChainChanged.delete(callback);
-        };
-    }, []);
+    const onChainChanged = useCallback(
+        (callback: ChainCallback, options?: SubscribeOptions) =>
+            bus.subscribe("onChainChanged", callback, options),
+        [bus]
+    );
 
     /**
      * Subscribe to wallet created events
      */
-    const onWalletCreated = useCallback((callback: WalletCallback) => {
-        eventCallbacks.onWalletCreated.add(callback);
-        return () => {
-            eventCallbacks.onWalletCreated.delete(callback);
-        };
-    }, []);
+    const onWalletCreated = useCallback(
+        (callback: WalletCallback, options?: SubscribeOptions) =>
+            bus.subscribe("onWalletCreated", callback, options),
+        [bus]
+    );
 
     return {
         onTransactionSent,
@@ -136,5 +235,7 @@ export function useKiroroEvents() {
         onTransactionFailed,
         onChainChanged,
         onWalletCreated,
+        /** Recent events from the replay buffer, oldest first */
+        getRecentEvents: bus.getRecentEvents,
     };
 }
@@ -0,0 +1,296 @@
+"use client";
+
+import { useMemo, useCallback } from "react";
+import { isAddress, type Hash } from "viem";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains } from "../context";
+import { KiroroError } from "../errors";
+import { useKiroroRead } from "./useKiroroRead";
+
+// Standard ERC-1155 ABI for common functions
+const erc1155Abi = [
+    {
+        inputs: [
+            { name: "account", type: "address" },
+            { name: "id", type: "uint256" },
+        ],
+        name: "balanceOf",
+        outputs: [{ name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { name: "accounts", type: "address[]" },
+            { name: "ids", type: "uint256[]" },
+        ],
+        name: "balanceOfBatch",
+        outputs: [{ name: "", type: "uint256[]" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { name: "from", type: "address" },
+            { name: "to", type: "address" },
+            { name: "id", type: "uint256" },
+            { name: "amount", type: "uint256" },
+            { name: "data", type: "bytes" },
+        ],
+        name: "safeTransferFrom",
+        outputs: [],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
+    {
+        inputs: [
+            { name: "from", type: "address" },
+            { name: "to", type: "address" },
+            { name: "ids", type: "uint256[]" },
+            { name: "amounts", type: "uint256[]" },
+            { name: "data", type: "bytes" },
+        ],
+        name: "safeBatchTransferFrom",
+        outputs: [],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
+    {
+        inputs: [
+            { name: "operator", type: "address" },
+            { name: "approved", type: "bool" },
+        ],
+        name: "setApprovalForAll",
+        outputs: [],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
+    {
+        inputs: [
+            { name: "account", type: "address" },
+            { name: "operator", type: "address" },
+        ],
+        name: "isApprovedForAll",
+        outputs: [{ name: "", type: "bool" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ name: "id", type: "uint256" }],
+        name: "uri",
+        outputs: [{ name: "", type: "string" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Stable empty result when no ids are watched
+const NO_BALANCES: readonly bigint[] = [];
+
+/**
+ * Hook for interacting with ERC-1155 multi-token contracts (game items, editions)
+ *
+ * `ids` is optional: the token IDs whose balances for the connected wallet are kept in `balances`
+ * (same order, cached and refreshed after transfers). Without it `balances` is empty;
+ * read other IDs with `balanceOf` / `balanceOfBatch`.
+ *
+ * @example
+ * ```tsx
+ * import { useKiroroMultiToken } from "@kirorolabs/sdk";
+ *
+ * function Inventory() {
+ *   const { balances, safeTransferFrom, isLoading } = useKiroroMultiToken("0x...", [1n, 2n]);
+ *
+ *   const handleGift = async () => {
+ *     const hash = await safeTransferFrom("0x...", 1n, 3n);
+ *     console.log("Items sent:", hash);
+ *   };
+ *
+ *   return <div>Swords: {balances?.[0]?.toString()} Shields: {balances?.[1]?.toString()}</div>;
+ * }
+ * ```
+ */
+export function useKiroroMultiToken(contractAddress: `0x${string}`, ids: readonly bigint[] = []) {
+    // SECURITY: Validate contract address
+    if (!isAddress(contractAddress)) {
+        throw new KiroroError("INVALID_REQUEST", `Invalid contract address: ${contractAddress}`);
+    }
+
+    const { address, chainId, writeContract, isReady } = useKiroroWallet();
+
+    const chains = useKiroroChains();
+
+    // Get public client for reading
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
+
+    // Balances of `ids` (cached, and refreshed when a transfer confirms)
+    const { data, isLoading, refetch } = useKiroroRead({
+        address: contractAddress,
+        abi: erc1155Abi,
+        functionName: "balanceOfBatch",
+        args: [ids.map(() => address as `0x${string}`), ids],
+        enabled: !!address && ids.length > 0,
+    });
+    // No ids: nothing to read, rather than a read that never settles
+    const balances = ids.length === 0 ? NO_BALANCES : data;
+
+    /**
+     * Re-read the balances
+     */
+    const refreshBalances = useCallback(async () => {
+        await refetch();
+    }, [refetch]);
+
+    /**
+     * Get the balance of one token ID (defaults to the connected wallet)
+     */
+    const balanceOf = useCallback(
+        async (id: bigint, account?: `0x${string}`): Promise<bigint> => {
+            const owner = account ?? address;
+            if (!owner) {
+                throw new KiroroError("WALLET_NOT_READY", "No account to read. Pass the account or authenticate first.");
+            }
+
+            return publicClient.readContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "balanceOf",
+                args: [owner, id],
+            });
+        },
+        [publicClient, contractAddress, address]
+    );
+
+    /**
+     * Get the balances of several token IDs. `accounts` pairs with `ids` (defaults to the connected wallet for all)
+     */
+    const balanceOfBatch = useCallback(
+        async (tokenIds: readonly bigint[], accounts?: readonly `0x${string}`[]): Promise<readonly bigint[]> => {
+            if (!accounts && !address) {
+                throw new KiroroError("WALLET_NOT_READY", "No account to read. Pass the accounts or authenticate first.");
+            }
+            const owners = accounts ?? tokenIds.map(() => address as `0x${string}`);
+            if (owners.length !== tokenIds.length) {
+                throw new KiroroError("INVALID_REQUEST", "accounts and ids must have the same length");
+            }
+
+            return publicClient.readContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "balanceOfBatch",
+                args: [owners, tokenIds],
+            });
+        },
+        [publicClient, contractAddress, address]
+    );
+
+    /**
+     * Transfer `amount` of a token ID to another address
+     */
+    const safeTransferFrom = useCallback(
+        async (to: `0x${string}`, id: bigint, amount: bigint, data: `0x${string}` = "0x"): Promise<Hash> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            return writeContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "safeTransferFrom",
+                args: [address, to, id, amount, data],
+            });
+        },
+        [isReady, address, writeContract, contractAddress]
+    );
+
+    /**
+     * Transfer several token IDs to another address in one call
+     */
+    const safeBatchTransferFrom = useCallback(
+        async (to: `0x${string}`, tokenIds: readonly bigint[], amounts: readonly bigint[], data: `0x${string}` = "0x"): Promise<Hash> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+            if (tokenIds.length !== amounts.length) {
+                throw new KiroroError("INVALID_REQUEST", "ids and amounts must have the same length");
+            }
+
+            return writeContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "safeBatchTransferFrom",
+                args: [address, to, tokenIds, amounts, data],
+            });
+        },
+        [isReady, address, writeContract, contractAddress]
+    );
+
+    /**
+     * Allow (or disallow) an operator to transfer all of the wallet's tokens of this contract
+     */
+    const setApprovalForAll = useCallback(
+        async (operator: `0x${string}`, approved: boolean): Promise<Hash> => {
+            if (!isReady) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            return writeContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "setApprovalForAll",
+                args: [operator, approved],
+            });
+        },
+        [isReady, writeContract, contractAddress]
+    );
+
+    /**
+     * Whether an operator may transfer all of an account's tokens (defaults to the connected wallet)
+     */
+    const isApprovedForAll = useCallback(
+        async (operator: `0x${string}`, account?: `0x${string}`): Promise<boolean> => {
+            const owner = account ?? address;
+            if (!owner) {
+                throw new KiroroError("WALLET_NOT_READY", "No account to read. Pass the account or authenticate first.");
+            }
+
+            return publicClient.readContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "isApprovedForAll",
+                args: [owner, operator],
+            });
+        },
+        [publicClient, contractAddress, address]
+    );
+
+    /**
+     * Get the metadata URI of a token ID, with `{id}` replaced by the
+     * zero-padded lowercase hex ID as required by ERC-1155
+     */
+    const uri = useCallback(
+        async (id: bigint): Promise<string> => {
+            const template = await publicClient.readContract({
+                address: contractAddress,
+                abi: erc1155Abi,
+                functionName: "uri",
+                args: [id],
+            });
+            return template.replace(/\{id\}/g, id.toString(16).padStart(64, "0"));
+        },
+        [publicClient, contractAddress]
+    );
+
+    return {
+        balances,
+        isLoading,
+        balanceOf,
+        balanceOfBatch,
+        safeTransferFrom,
+        safeBatchTransferFrom,
+        setApprovalForAll,
+        isApprovedForAll,
+        uri,
+        refreshBalances,
+    };
+}
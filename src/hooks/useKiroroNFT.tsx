@@ -1,13 +1,17 @@
 "use client";
 
-import { useMemo, useCallback, useState, useEffect } from "react";
-import {
-    type Hash,
-    createPublicClient,
-    http,
-} from "viem";
-import { base } from "viem/chains";
-import { useKiroroWallet, SUPPORTED_CHAINS } from "../wallet";
+import { useMemo, useCallback } from "react";
+import type { Hash } from "viem";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains, useKiroroConfig } from "../context";
+import { KiroroError } from "../errors";
+import { useKiroroRead } from "./useKiroroRead";
+import { scanLogs, type LogScanOptions } from "../logs";
+import { fetchKiroroMetadata } from "../metadata";
+import type { NftMetadata } from "../types";
+
+// ERC-165 interface ID of ERC721Enumerable
+const ERC721_ENUMERABLE_INTERFACE_ID = "0x780e9d63";
 
 // Standard ERC-721 ABI for common functions
 const erc721Abi = [
@@ -85,8 +89,36 @@ const erc721Abi = [
         stateMutability: "view",
         type: "function",
     },
+    {
+        inputs: [{ name: "interfaceId", type: "bytes4" }],
+        name: "supportsInterface",
+        outputs: [{ name: "", type: "bool" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { name: "owner", type: "address" },
+            { name: "index", type: "uint256" },
+        ],
+        name: "tokenOfOwnerByIndex",
+        outputs: [{ name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
 ] as const;
 
+const transferEvent = {
+    anonymous: false,
+    inputs: [
+        { indexed: true, name: "from", type: "address" },
+        { indexed: true, name: "to", type: "address" },
+        { indexed: true, name: "tokenId", type: "uint256" },
+    ],
+    name: "Transfer",
+    type: "event",
+} as const;
+
 /**
  * Hook for interacting with ERC-721 NFT contracts
  * 
@@ -108,42 +140,28 @@ const erc721Abi = [
  */
 export function useKiroroNFT(contractAddress: `0x${string}`) {
     const { address, chainId, writeContract, isReady } = useKiroroWallet();
-    const [balance, setBalance] = useState<bigint | undefined>();
-    const [isLoading, setIsLoading] = useState(false);
+
+    const chains = useKiroroChains();
+    const kiroro = useKiroroConfig();
 
     // Get public client for reading
-    const publicClient = useMemo(() => {
-        const chain = SUPPORTED_CHAINS[chainId as keyof typeof SUPPORTED_CHAINS] ?? base;
-        return createPublicClient({
-            chain,
-            transport: http(),
-        });
-    }, [chainId]);
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
 
-    // Fetch balance
-    const refreshBalance = useCallback(async () => {
-        if (!address || !contractAddress) return;
+    // Balance (cached, and refreshed when a transfer confirms)
+    const { data: balance, isLoading, refetch } = useKiroroRead({
+        address: contractAddress,
+        abi: erc721Abi,
+        functionName: "balanceOf",
+        args: [address as `0x${string}`],
+        enabled: !!address,
+    });
 
-        setIsLoading(true);
-        try {
-            const bal = await publicClient.readContract({
-                address: contractAddress,
-                abi: erc721Abi,
-                functionName: "balanceOf",
-                args: [address],
-            });
-            setBalance(bal);
-        } catch (err) {
-            console.error("[Kiroro] Failed to fetch NFT balance:", err);
-        } finally {
-            setIsLoading(false);
-        }
-    }, [publicClient, address, contractAddress]);
-
-    // Fetch balance on mount and when address changes
-    useEffect(() => {
-        refreshBalance();
-    }, [refreshBalance]);
+    /**
+     * Re-read the balance
+     */
+    const refreshBalance = useCallback(async () => {
+        await refetch();
+    }, [refetch]);
 
     /**
      * Get the owner of a specific token
@@ -166,21 +184,17 @@ export function useKiroroNFT(contractAddress: `0x${string}`) {
     const transfer = useCallback(
         async (to: `0x${string}`, tokenId: bigint): Promise<Hash> => {
             if (!isReady || !address) {
-                throw new Error("[Kiroro] Wallet not ready");
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
             }
 
-            const hash = await writeContract({
+            return writeContract({
                 address: contractAddress,
                 abi: erc721Abi,
                 functionName: "safeTransferFrom",
                 args: [address, to, tokenId],
             });
-
-            // Refresh balance after transfer
-            setTimeout(refreshBalance, 2000);
-            return hash;
         },
-        [isReady, address, writeContract, contractAddress, refreshBalance]
+        [isReady, address, writeContract, contractAddress]
     );
 
     /**
@@ -189,7 +203,7 @@ export function useKiroroNFT(contractAddress: `0x${string}`) {
     const approve = useCallback(
         async (spender: `0x${string}`, tokenId: bigint): Promise<Hash> => {
             if (!isReady) {
-                throw new Error("[Kiroro] Wallet not ready");
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
             }
 
             return writeContract({
@@ -232,6 +246,82 @@ export function useKiroroNFT(contractAddress: `0x${string}`) {
         [publicClient, contractAddress]
     );
 
+    /**
+     * List the token IDs an account owns (defaults to the connected wallet).
+     * Uses ERC721Enumerable when the contract supports it, otherwise scans Transfer events
+     * from `options.fromBlock` and checks current ownership. That fallback needs `fromBlock`
+     * (e.g. the contract's deployment block): a shorter window would silently miss older tokens.
+     */
+    const tokensOfOwner = useCallback(
+        async (account?: `0x${string}`, options: LogScanOptions = {}): Promise<bigint[]> => {
+            const owner = account ?? address;
+            if (!owner) {
+                throw new KiroroError("WALLET_NOT_READY", "No account to read. Pass the account or authenticate first.");
+            }
+
+            const enumerable = await publicClient.readContract({
+                address: contractAddress,
+                abi: erc721Abi,
+                functionName: "supportsInterface",
+                args: [ERC721_ENUMERABLE_INTERFACE_ID],
+            }).catch(() => false);
+
+            if (enumerable) {
+                const count = await publicClient.readContract({
+                    address: contractAddress,
+                    abi: erc721Abi,
+                    functionName: "balanceOf",
+                    args: [owner],
+                });
+                // Reads in the same tick are batched into one multicall
+                return Promise.all(Array.from({ length: Number(count) }, (_, index) =>
+                    publicClient.readContract({
+                        address: contractAddress,
+                        abi: erc721Abi,
+                        functionName: "tokenOfOwnerByIndex",
+                        args: [owner, BigInt(index)],
+                    })
+                ));
+            }
+
+            if (options.fromBlock === undefined) {
+                throw new KiroroError(
+                    "INVALID_REQUEST",
+                    `${contractAddress} is not ERC721Enumerable: pass options.fromBlock (e.g. the contract's deployment block) to scan its Transfer events.`
+                );
+            }
+            const { logs } = await scanLogs(
+                publicClient,
+                (range) => publicClient.getLogs({
+                    address: contractAddress,
+                    event: transferEvent,
+                    args: { to: owner },
+                    ...range,
+                }),
+                options
+            );
+            const received = [...new Set(logs.map((log) => log.args.tokenId).filter((id): id is bigint => id !== undefined))];
+
+            // Tokens received may have been sent on since
+            const owners = await Promise.all(received.map((tokenId) => ownerOf(tokenId).catch(() => null)));
+            return received
+                .filter((_, i) => owners[i]?.toLowerCase() === owner.toLowerCase())
+                .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        },
+        [address, publicClient, contractAddress, ownerOf]
+    );
+
+    /**
+     * Fetch and parse a token's metadata (ipfs://, ar://, data: and HTTP(S) token URIs),
+     * resolved through the configured gateways
+     */
+    const getMetadata = useCallback(
+        async (tokenId: bigint): Promise<NftMetadata> => {
+            return fetchKiroroMetadata(await tokenURI(tokenId), kiroro?.config.gateways);
+        },
+        [tokenURI, kiroro]
+    );
+
     /**
      * Get collection name
      */
@@ -262,6 +352,8 @@ export function useKiroroNFT(contractAddress: `0x${string}`) {
         approve,
         getApproved,
         tokenURI,
+        tokensOfOwner,
+        getMetadata,
         name,
         symbol,
         refreshBalance,
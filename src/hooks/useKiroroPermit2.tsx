@@ -0,0 +1,88 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains } from "../context";
+import { KiroroError } from "../errors";
+import { defaultPermit2SigDeadline, getPermit2Details, getPermit2TypedData } from "../permit";
+import type { Permit2Batch, Permit2Options, Permit2Signature, Permit2Single } from "../types";
+
+/**
+ * Sign Permit2 allowances, so contracts can pull tokens without an approval transaction per spender.
+ *
+ * Each token needs a one-time `approve(PERMIT2_ADDRESS, amount)` first. Permit2 checks smart wallet
+ * signatures with ERC-1271, so the wallet must be deployed (it is after its first transaction).
+ *
+ * @example
+ * ```tsx
+ * import { useKiroroPermit2 } from "@kirorolabs/sdk";
+ *
+ * const { signPermitBatch } = useKiroroPermit2();
+ * const { owner, permit, signature } = await signPermitBatch(router, [
+ *   { token: usdc, amount: 100_000_000n },
+ *   { token: weth, amount: 10n ** 17n },
+ * ]);
+ * await writeContract({ address: router, abi, functionName: "deposit", args: [owner, permit, signature] });
+ * ```
+ */
+export function useKiroroPermit2() {
+    const { address, chainId, signTypedData, isReady } = useKiroroWallet();
+    const chains = useKiroroChains();
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
+
+    /**
+     * Sign a Permit2 `PermitSingle` for one token
+     */
+    const signPermitSingle = useCallback(
+        async (
+            token: `0x${string}`,
+            spender: `0x${string}`,
+            amount: bigint,
+            options: Permit2Options = {}
+        ): Promise<Permit2Signature<Permit2Single>> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            const [details] = await getPermit2Details(publicClient, address, spender, [{ token, amount }], options);
+            const permit: Permit2Single = {
+                details,
+                spender,
+                sigDeadline: options.sigDeadline ?? defaultPermit2SigDeadline(),
+            };
+            const signature = await signTypedData(getPermit2TypedData(chainId, permit));
+            return { owner: address, permit, signature };
+        },
+        [isReady, address, publicClient, chainId, signTypedData]
+    );
+
+    /**
+     * Sign a Permit2 `PermitBatch` covering several tokens with one signature
+     */
+    const signPermitBatch = useCallback(
+        async (
+            spender: `0x${string}`,
+            tokens: readonly { token: `0x${string}`; amount: bigint }[],
+            options: Permit2Options = {}
+        ): Promise<Permit2Signature<Permit2Batch>> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+            if (tokens.length === 0) {
+                throw new KiroroError("INVALID_REQUEST", "signPermitBatch needs at least one token");
+            }
+
+            const details = await getPermit2Details(publicClient, address, spender, tokens, options);
+            const permit: Permit2Batch = {
+                details,
+                spender,
+                sigDeadline: options.sigDeadline ?? defaultPermit2SigDeadline(),
+            };
+            const signature = await signTypedData(getPermit2TypedData(chainId, permit));
+            return { owner: address, permit, signature };
+        },
+        [isReady, address, publicClient, chainId, signTypedData]
+    );
+
+    return { signPermitSingle, signPermitBatch };
+}
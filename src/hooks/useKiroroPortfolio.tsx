@@ -0,0 +1,285 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    erc20Abi,
+    formatUnits,
+    type Chain,
+    type ContractFunctionParameters,
+    type PublicClient,
+} from "viem";
+import { Connection, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains, useKiroroConfig } from "../context";
+import { useKiroroSolana } from "../solana";
+import { useKiroroEventBus } from "./useKiroroEvents";
+import { KiroroError, toKiroroError } from "../errors";
+import type { PortfolioBalance, PortfolioToken, SolanaCluster } from "../types";
+
+// Lamports per SOL
+const SOL_DECIMALS = 9;
+
+export interface UseKiroroPortfolioOptions {
+    /** ERC-20 tokens to include, per chain ID */
+    tokens?: Partial<Record<number, readonly (`0x${string}` | PortfolioToken)[]>>;
+    /** Chains to read (default: every configured chain) */
+    chainIds?: readonly number[];
+    /** Include native currency balances (default: true) */
+    includeNative?: boolean;
+    /** Include the Solana wallet's SOL balance, on the given cluster (default: the first configured cluster, or mainnet-beta) */
+    includeSolana?: boolean | SolanaCluster;
+    /** Wallet to read (default: the Kiroro smart wallet) */
+    address?: `0x${string}`;
+    /** Read again every `pollInterval` ms */
+    pollInterval?: number;
+    /** Set to false to skip reading */
+    enabled?: boolean;
+}
+
+// Symbol / decimals never change, so they are read once per token
+const tokenMetadata = new Map<string, { symbol: string; decimals: number }>();
+
+// ERC-20 reads plus Multicall3's native balance getter (viem's multicall3Abi only has aggregate3)
+const portfolioAbi = [
+    ...erc20Abi,
+    {
+        inputs: [{ name: "addr", type: "address" }],
+        name: "getEthBalance",
+        outputs: [{ name: "balance", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+type ContractCall = ContractFunctionParameters<typeof portfolioAbi, "view", "balanceOf" | "decimals" | "symbol" | "getEthBalance">;
+type CallResult = { status: "success"; result: unknown } | { status: "failure"; error: unknown };
+
+/**
+ * Multicall when the chain has Multicall3, one request per call otherwise (e.g. local chains)
+ */
+async function readAll(publicClient: PublicClient, chain: Chain, contracts: ContractCall[]): Promise<CallResult[]> {
+    if (contracts.length === 0) return [];
+    if (chain.contracts?.multicall3) {
+        return await publicClient.multicall({ contracts, allowFailure: true });
+    }
+    const settled = await Promise.allSettled(contracts.map((contract) => publicClient.readContract(contract)));
+    return settled.map((s) => (s.status === "fulfilled" ? { status: "success", result: s.value } : { status: "failure", error: s.reason }));
+}
+
+/**
+ * Native and ERC-20 balances of one chain, read in a single multicall
+ */
+async function readChainBalances(
+    publicClient: PublicClient,
+    chain: Chain,
+    owner: `0x${string}`,
+    tokens: PortfolioToken[],
+    includeNative: boolean
+): Promise<PortfolioBalance[]> {
+    const multicall3 = chain.contracts?.multicall3?.address;
+    const metadataKey = (token: PortfolioToken) => `${chain.id}:${token.address.toLowerCase()}`;
+    const missingMetadata = tokens.filter((token) =>
+        (token.symbol === undefined || token.decimals === undefined) && !tokenMetadata.has(metadataKey(token))
+    );
+
+    const contracts: ContractCall[] = [
+        ...tokens.map((token): ContractCall => ({ address: token.address, abi: portfolioAbi, functionName: "balanceOf", args: [owner] })),
+        ...missingMetadata.flatMap((token): ContractCall[] => [
+            { address: token.address, abi: portfolioAbi, functionName: "decimals" },
+            { address: token.address, abi: portfolioAbi, functionName: "symbol" },
+        ]),
+    ];
+    // Multicall3 reports native balances, so they join the same request
+    const nativeViaMulticall = includeNative && !!multicall3;
+    if (nativeViaMulticall) {
+        contracts.push({ address: multicall3!, abi: portfolioAbi, functionName: "getEthBalance", args: [owner] });
+    }
+
+    const [results, nativeBalance] = await Promise.all([
+        readAll(publicClient, chain, contracts),
+        includeNative && !nativeViaMulticall ? publicClient.getBalance({ address: owner }) : undefined,
+    ]);
+
+    missingMetadata.forEach((token, i) => {
+        const decimals = results[tokens.length + i * 2];
+        const symbol = results[tokens.length + i * 2 + 1];
+        if (decimals.status === "success" && symbol.status === "success") {
+            tokenMetadata.set(metadataKey(token), { decimals: Number(decimals.result), symbol: String(symbol.result) });
+        }
+    });
+
+    const balances: PortfolioBalance[] = [];
+
+    const native = nativeViaMulticall ? results[results.length - 1] : undefined;
+    const nativeWei = native?.status === "success" ? (native.result as bigint) : nativeBalance;
+    if (includeNative && nativeWei !== undefined) {
+        const { symbol, decimals } = chain.nativeCurrency;
+        balances.push({ chainId: chain.id, token: null, symbol, decimals, balance: nativeWei, formatted: formatUnits(nativeWei, decimals) });
+    } else if (native?.status === "failure") {
+        console.warn(`[Kiroro] Failed to read ${chain.nativeCurrency.symbol} balance on chain ${chain.id}:`, native.error);
+    }
+
+    tokens.forEach((token, i) => {
+        const result = results[i];
+        const metadata = tokenMetadata.get(metadataKey(token));
+        const symbol = token.symbol ?? metadata?.symbol;
+        const decimals = token.decimals ?? metadata?.decimals;
+        if (result.status === "failure" || symbol === undefined || decimals === undefined) {
+            console.warn(`[Kiroro] Failed to read token ${token.address} on chain ${chain.id}:`, result.status === "failure" ? result.error : "missing metadata");
+            return;
+        }
+        const balance = result.result as bigint;
+        balances.push({ chainId: chain.id, token: token.address, symbol, decimals, balance, formatted: formatUnits(balance, decimals) });
+    });
+
+    return balances;
+}
+
+async function readSolanaBalance(cluster: SolanaCluster, owner: string): Promise<PortfolioBalance> {
+    const lamports = BigInt(await new Connection(cluster.rpcUrl).getBalance(new PublicKey(owner)));
+    return {
+        chainId: "solana",
+        token: null,
+        symbol: "SOL",
+        decimals: SOL_DECIMALS,
+        balance: lamports,
+        formatted: formatUnits(lamports, SOL_DECIMALS),
+    };
+}
+
+/**
+ * Native and ERC-20 balances across chains, with decimals-aware formatted amounts.
+ *
+ * Each chain is read with one multicall. Chains that fail are skipped and reported in `error`,
+ * the balances of the other chains are still returned. Balances are read again after Kiroro transactions.
+ *
+ * @example
+ * ```tsx
+ * import { useKiroroPortfolio } from "@kirorolabs/sdk";
+ * import { base, arbitrum } from "viem/chains";
+ *
+ * function Portfolio() {
+ *   const { balances, isLoading } = useKiroroPortfolio({
+ *     tokens: {
+ *       [base.id]: ["0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913"],
+ *       [arbitrum.id]: [{ address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", symbol: "USDC", decimals: 6 }],
+ *     },
+ *     includeSolana: true,
+ *   });
+ *   return (
+ *     <ul>
+ *       {balances.map((b) => <li key={`${b.chainId}:${b.token}`}>{b.formatted} {b.symbol}</li>)}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useKiroroPortfolio(options: UseKiroroPortfolioOptions = {}) {
+    const { includeNative = true, includeSolana = false, pollInterval, enabled = true } = options;
+    const { address: walletAddress, chainId: walletChainId } = useKiroroWallet();
+    const { walletAddress: solanaAddress } = useKiroroSolana();
+    const chains = useKiroroChains();
+    const kiroro = useKiroroConfig();
+    const events = useKiroroEventBus();
+
+    const owner = options.address ?? walletAddress;
+
+    // tokens, chainIds and a cluster are usually new objects on every render: only react when their content changes
+    const tokensKey = JSON.stringify(options.tokens ?? {});
+    const chainIdsKey = options.chainIds?.join(",");
+    const tokens = useMemo(() => {
+        const normalized: Record<number, PortfolioToken[]> = {};
+        for (const [chainId, list] of Object.entries(options.tokens ?? {})) {
+            normalized[Number(chainId)] = (list ?? []).map((token) => (typeof token === "string" ? { address: token } : token));
+        }
+        return normalized;
+    }, [tokensKey]);
+    const targetChains = useMemo(() => {
+        const ids = options.chainIds ?? chains.chains.map((chain) => chain.id);
+        return ids.map((id) => chains.getChain(id)).filter((chain): chain is Chain => !!chain);
+    }, [chains, chainIdsKey]);
+
+    const solanaKey = typeof includeSolana === "object" ? includeSolana.rpcUrl : includeSolana;
+    const solanaCluster = useMemo<SolanaCluster | null>(() => {
+        if (!includeSolana) return null;
+        if (typeof includeSolana === "object") return includeSolana;
+        return kiroro?.config.solanaClusters?.[0] ?? { name: "mainnet-beta", rpcUrl: clusterApiUrl("mainnet-beta") };
+    }, [solanaKey, kiroro]);
+
+    const [balances, setBalances] = useState<PortfolioBalance[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+
+    // Ignore results that arrive after the options changed
+    const requestId = useRef(0);
+
+    const load = useCallback(async (): Promise<PortfolioBalance[]> => {
+        const id = ++requestId.current;
+        if (!enabled || (!owner && !(solanaCluster && solanaAddress))) {
+            // Disabled or signed out: drop the previous wallet's balances
+            setBalances([]);
+            setError(null);
+            setIsLoading(false);
+            return [];
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        const reads: Promise<PortfolioBalance[]>[] = owner
+            ? targetChains.map((chain) =>
+                readChainBalances(chains.getPublicClient(chain.id), chain, owner, tokens[chain.id] ?? [], includeNative))
+            : [];
+        if (solanaCluster && solanaAddress) {
+            reads.push(readSolanaBalance(solanaCluster, solanaAddress).then((balance) => [balance]));
+        }
+
+        const results = await Promise.allSettled(reads);
+        if (id !== requestId.current) return [];
+
+        const next: PortfolioBalance[] = [];
+        let failure: KiroroError | null = null;
+        for (const result of results) {
+            if (result.status === "fulfilled") {
+                next.push(...result.value);
+            } else {
+                console.error("[Kiroro] Failed to read portfolio balances:", result.reason);
+                failure ??= toKiroroError(result.reason, "NETWORK_ERROR");
+            }
+        }
+
+        setBalances(next);
+        setError(failure);
+        setIsLoading(false);
+        return next;
+    }, [enabled, owner, targetChains, tokens, includeNative, chains, solanaCluster, solanaAddress]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    // Interval polling
+    useEffect(() => {
+        if (!enabled || !pollInterval) return;
+        const timer = setInterval(load, pollInterval);
+        return () => clearInterval(timer);
+    }, [enabled, pollInterval, load]);
+
+    // Read again once a Kiroro transaction confirms
+    useEffect(() => {
+        return events.subscribe("onTransactionSent", ({ hash }) => {
+            chains.getPublicClient(walletChainId).waitForTransactionReceipt({ hash })
+                .then(() => load())
+                .catch(() => {
+                    // Receipt not found: the next poll or refetch picks the change up
+                });
+        });
+    }, [events, chains, walletChainId, load]);
+
+    /**
+     * Read every balance again
+     */
+    const refetch = useCallback(() => load(), [load]);
+
+    return { balances, isLoading, error, refetch };
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+    Abi,
+    ContractFunctionArgs,
+    ContractFunctionName,
+    ContractFunctionReturnType,
+    ReadContractParameters,
+} from "viem";
+import { readContract } from "viem/actions";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains } from "../context";
+import { useKiroroEventBus } from "./useKiroroEvents";
+import { KiroroError, toKiroroError } from "../errors";
+import {
+    fetchRead,
+    getReadQueryKey,
+    invalidateReadsForReceipt,
+    invalidateReadsOnConfirmation,
+    peekRead,
+    subscribeRead,
+    watchBlocks,
+    type ReadQueryKey,
+} from "../read-cache";
+import type { ReadContractRequest, ReadStateMutability } from "../types";
+
+export interface UseKiroroReadOptions {
+    /** Set to false to skip reading */
+    enabled?: boolean;
+    /** How long a result is shared between components before it is read again (default: 10s) */
+    cacheTime?: number;
+    /** Read again on every new block */
+    watch?: boolean;
+    /** Read again every `pollInterval` ms */
+    pollInterval?: number;
+}
+
+/**
+ * Cached contract read, with the result type inferred from the ABI.
+ *
+ * Components reading the same contract, function and args share one cached result and request,
+ * and reads made together are batched into a multicall. Reads of contracts touched by a Kiroro
+ * transaction are refreshed once it confirms.
+ *
+ * @example
+ * ```tsx
+ * import { useKiroroRead } from "@kirorolabs/sdk";
+ * import { erc20Abi } from "viem";
+ *
+ * function Supply({ token }: { token: `0x${string}` }) {
+ *   const { data: supply, isLoading } = useKiroroRead({
+ *     address: token,
+ *     abi: erc20Abi,
+ *     functionName: "totalSupply",
+ *     watch: true,
+ *   });
+ *   return <p>{isLoading ? "..." : supply?.toString()}</p>;
+ * }
+ * ```
+ */
+export function useKiroroRead<
+    const TAbi extends Abi,
+    TFunctionName extends ContractFunctionName<TAbi, ReadStateMutability>,
+    const TArgs extends ContractFunctionArgs<TAbi, ReadStateMutability, TFunctionName>,
+>(request: ReadContractRequest<TAbi, TFunctionName, TArgs> & UseKiroroReadOptions) {
+    type TResult = ContractFunctionReturnType<TAbi, ReadStateMutability, TFunctionName, TArgs>;
+
+    const { enabled = true, cacheTime, watch = false, pollInterval } = request;
+    const { chainId: walletChainId } = useKiroroWallet();
+    const chains = useKiroroChains();
+    const events = useKiroroEventBus();
+
+    const chainId = request.chainId ?? walletChainId;
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
+
+    // abi and args are usually new objects on every render: only react when the serialized read changes
+    const requestRef = useRef(request);
+    requestRef.current = request;
+    const keyString = getReadQueryKey({
+        chainId,
+        address: request.address,
+        functionName: request.functionName,
+        args: request.args as readonly unknown[] | undefined,
+        blockNumber: request.blockNumber,
+    });
+    const key = useMemo<ReadQueryKey>(() => {
+        const { address, functionName, args, blockNumber } = requestRef.current;
+        return { chainId, address, functionName, args: args as readonly unknown[] | undefined, blockNumber };
+    }, [keyString]);
+
+    const [data, setData] = useState<TResult | undefined>(() => peekRead<TResult>(key));
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+
+    // Ignore results that arrive after the read changed
+    const requestId = useRef(0);
+
+    const load = useCallback(async (fresh = false): Promise<TResult | undefined> => {
+        if (!enabled) return undefined;
+
+        const id = ++requestId.current;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const { address, abi, functionName, args, blockNumber } = requestRef.current;
+            const parameters: ReadContractParameters<TAbi, TFunctionName, TArgs> = {
+                address,
+                abi,
+                functionName,
+                args,
+                blockNumber,
+            };
+            const result = await fetchRead(
+                key,
+                () => readContract(publicClient, parameters),
+                { cacheTime, fresh }
+            );
+            if (id === requestId.current) setData(result);
+            return result;
+        } catch (err) {
+            if (id === requestId.current) {
+                console.error(`[Kiroro] Failed to read ${key.functionName}:`, err);
+                setError(toKiroroError(err));
+            }
+            return undefined;
+        } finally {
+            if (id === requestId.current) setIsLoading(false);
+        }
+    }, [key, enabled, publicClient, cacheTime]);
+
+    // Show the cached result of the new read (if any), then read
+    useEffect(() => {
+        setData(peekRead<TResult>(key));
+        load();
+    }, [load]);
+
+    // Pick up results read by other components, and re-read when invalidated
+    useEffect(() => {
+        return subscribeRead(key, (event) => {
+            if (event === "updated") setData(peekRead<TResult>(key));
+            else load(true);
+        });
+    }, [key, load]);
+
+    // Block-based polling (not for reads pinned to a block)
+    useEffect(() => {
+        if (!enabled || !watch || key.blockNumber !== undefined) return;
+        return watchBlocks(chainId, publicClient, () => load(true));
+    }, [enabled, watch, key, chainId, publicClient, load]);
+
+    // Interval polling
+    useEffect(() => {
+        if (!enabled || !pollInterval) return;
+        const timer = setInterval(() => load(true), pollInterval);
+        return () => clearInterval(timer);
+    }, [enabled, pollInterval, load]);
+
+    // Kiroro transactions invalidate the reads of the contracts they touch
+    useEffect(() => {
+        const unsubSent = events.subscribe("onTransactionSent", ({ hash, to }) => {
+            invalidateReadsOnConfirmation(hash, chains.getPublicClient(walletChainId), to);
+        });
+        const unsubConfirmed = events.subscribe("onTransactionConfirmed", ({ receipt }) => {
+            invalidateReadsForReceipt(receipt);
+        });
+        return () => {
+            unsubSent();
+            unsubConfirmed();
+        };
+    }, [events, chains, walletChainId]);
+
+    /**
+     * Read again, bypassing the cache
+     */
+    const refetch = useCallback(() => load(true), [load]);
+
+    return { data, isLoading, error, refetch };
+}
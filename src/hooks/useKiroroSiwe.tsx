@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useKiroroWallet } from "../wallet";
+import { useThreadsAuth } from "../threads-auth";
+import { useKiroroConfig } from "../context";
+import { createKiroroSiweMessage } from "../siwe";
+import { KiroroError, toKiroroError } from "../errors";
+import type { KiroroWalletLink } from "../types";
+
+const DEFAULT_BACKEND = "https://app.kiroro.xyz";
+
+// Only log in development
+const IS_DEV = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
+
+/**
+ * Hook to prove the logged-in Threads user controls the smart wallet (Sign-In With Ethereum, EIP-4361).
+ *
+ * The backend issues a nonce, the smart wallet signs a SIWE message naming the Threads account,
+ * and the backend verifies the signature before storing the link.
+ *
+ * @example
+ * ```tsx
+ * import { useKiroroSiwe } from "@kirorolabs/sdk";
+ *
+ * function LinkWallet() {
+ *   const { linkWallet, link, isLinking } = useKiroroSiwe();
+ *
+ *   if (link) return <p>Linked {link.address}</p>;
+ *   return <button onClick={() => linkWallet()} disabled={isLinking}>Verify wallet</button>;
+ * }
+ * ```
+ */
+export function useKiroroSiwe() {
+    const { address, chainId, isReady, signMessage } = useKiroroWallet();
+    const { user, getAccessToken } = useThreadsAuth();
+    const backendUrl = useKiroroConfig()?.backendUrl ?? DEFAULT_BACKEND;
+
+    const [link, setLink] = useState<KiroroWalletLink | null>(null);
+    const [isLinking, setIsLinking] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+
+    /**
+     * Sign a SIWE message with the smart wallet and submit it for verification
+     */
+    const linkWallet = useCallback(async (options: { statement?: string } = {}): Promise<KiroroWalletLink> => {
+        if (!isReady || !address) {
+            throw new KiroroError("WALLET_NOT_READY", "Wallet not ready. Please authenticate first.");
+        }
+        if (!user) {
+            throw new KiroroError("NOT_AUTHENTICATED", "Not authenticated with Threads");
+        }
+
+        setIsLinking(true);
+        setError(null);
+        try {
+            const token = await getAccessToken();
+            if (!token) {
+                throw new KiroroError("NOT_AUTHENTICATED", "Not authenticated with Threads");
+            }
+            const headers = {
+                "Content-Type": "application/json",
+                "Authorization": `Bearer ${token}`,
+            };
+
+            // 1. Server-issued nonce (prevents replaying an old signature)
+            const nonceResponse = await fetch(`${backendUrl}/api/siwe/nonce`, { method: "POST", headers });
+            const nonceData = await nonceResponse.json();
+            if (!nonceResponse.ok || !nonceData.nonce) {
+                throw new KiroroError("AUTH_FAILED", nonceData.error || "Failed to get a SIWE nonce");
+            }
+
+            // 2. Sign with the smart wallet
+            const message = createKiroroSiweMessage({
+                address,
+                chainId,
+                nonce: nonceData.nonce,
+                threadsUsername: user.username,
+                statement: options.statement,
+            });
+            const signature = await signMessage(message);
+
+            // 3. Server verification
+            const verifyResponse = await fetch(`${backendUrl}/api/siwe/verify`, {
+                method: "POST",
+                headers,
+                body: JSON.stringify({ message, signature }),
+            });
+            const verifyData = await verifyResponse.json();
+            if (!verifyResponse.ok || !verifyData.success) {
+                throw new KiroroError("AUTH_FAILED", verifyData.error || "SIWE verification failed");
+            }
+
+            const result: KiroroWalletLink = {
+                address,
+                chainId,
+                threadsUsername: user.username,
+                message,
+                signature,
+                linkedAt: Date.now(),
+            };
+            setLink(result);
+            if (IS_DEV) console.log("[Kiroro] Linked wallet", address, "to @" + user.username);
+            return result;
+        } catch (err: any) {
+            const error = toKiroroError(err, "AUTH_FAILED");
+            setError(error);
+            throw error;
+        } finally {
+            setIsLinking(false);
+        }
+    }, [isReady, address, chainId, user, getAccessToken, backendUrl, signMessage]);
+
+    return { linkWallet, link, isLinking, error };
+}
@@ -1,16 +1,27 @@
 "use client";
 
-import { useMemo, useCallback, useState, useEffect } from "react";
+import { useMemo, useCallback } from "react";
 import {
     type Abi,
     type Hash,
-    createPublicClient,
-    http,
     erc20Abi,
+    formatUnits,
     isAddress,
+    maxUint256,
+    parseUnits,
 } from "viem";
-import { base } from "viem/chains";
-import { useKiroroWallet, SUPPORTED_CHAINS } from "../wallet";
+import { useKiroroWallet } from "../wallet";
+import { useKiroroChains } from "../context";
+import { KiroroError } from "../errors";
+import { useKiroroRead } from "./useKiroroRead";
+import { fetchRead } from "../read-cache";
+import { useKiroroPermit2 } from "./useKiroroPermit2";
+import { getPermitTypedData, supportsPermit as tokenSupportsPermit } from "../permit";
+import { assertTransferable } from "../token";
+import type { Permit2Options, Permit2Signature, Permit2Single, PermitSignature, WriteContractsRequest } from "../types";
+
+// name, symbol and decimals never change, so they are read once per chain and token
+const METADATA_CACHE_TIME = Infinity;
 
 /**
  * Hook for interacting with ERC-20 tokens
@@ -20,101 +31,200 @@ import { useKiroroWallet, SUPPORTED_CHAINS } from "../wallet";
  * import { useKiroroToken } from "@kirorolabs/sdk";
  * 
  * function TokenBalance() {
- *   const { balance, transfer, approve, isLoading } = useKiroroToken("0x...");
+ *   const { formattedBalance, metadata, transfer, isLoading } = useKiroroToken("0x...");
  *   
  *   const handleTransfer = async () => {
- *     const hash = await transfer("0x...", BigInt(1e18));
+ *     // "1.5" is parsed with the token's decimals
+ *     const hash = await transfer("0x...", "1.5");
  *     console.log("Transfer sent:", hash);
  *   };
  *   
- *   return <div>Balance: {balance?.toString()}</div>;
+ *   return <div>Balance: {formattedBalance} {metadata.symbol}</div>;
  * }
  * ```
  */
 export function useKiroroToken(tokenAddress: `0x${string}`) {
     // SECURITY: Validate token address
     if (!isAddress(tokenAddress)) {
-        throw new Error(`[Kiroro] Invalid token address: ${tokenAddress}`);
+        throw new KiroroError("INVALID_REQUEST", `Invalid token address: ${tokenAddress}`);
     }
 
-    const { address, chainId, writeContract, isReady } = useKiroroWallet();
-    const [balance, setBalance] = useState<bigint | undefined>();
-    const [isLoading, setIsLoading] = useState(false);
+    const { address, chainId, writeContract, writeContracts, signTypedData, isReady } = useKiroroWallet();
+    const { signPermitSingle } = useKiroroPermit2();
+
+    const chains = useKiroroChains();
 
     // Get public client for reading
-    const publicClient = useMemo(() => {
-        const chain = SUPPORTED_CHAINS[chainId as keyof typeof SUPPORTED_CHAINS] ?? base;
-        return createPublicClient({
-            chain,
-            transport: http(),
-        });
-    }, [chainId]);
-
-    // Fetch balance
+    const publicClient = useMemo(() => chains.getPublicClient(chainId), [chains, chainId]);
+
+    // Balance (cached, and refreshed when a transfer confirms)
+    const { data: balance, isLoading, refetch } = useKiroroRead({
+        address: tokenAddress,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [address as `0x${string}`],
+        enabled: !!address,
+    });
+
+    // Metadata (shared with every other reader of this token)
+    const { data: name } = useKiroroRead({ address: tokenAddress, abi: erc20Abi, functionName: "name", cacheTime: METADATA_CACHE_TIME });
+    const { data: symbolValue } = useKiroroRead({ address: tokenAddress, abi: erc20Abi, functionName: "symbol", cacheTime: METADATA_CACHE_TIME });
+    const { data: decimalsValue } = useKiroroRead({ address: tokenAddress, abi: erc20Abi, functionName: "decimals", cacheTime: METADATA_CACHE_TIME });
+    const { data: totalSupply } = useKiroroRead({ address: tokenAddress, abi: erc20Abi, functionName: "totalSupply" });
+
+    const metadata = useMemo(
+        () => ({ name, symbol: symbolValue, decimals: decimalsValue, totalSupply }),
+        [name, symbolValue, decimalsValue, totalSupply]
+    );
+
+    const formattedBalance = useMemo(
+        () => (balance !== undefined && decimalsValue !== undefined ? formatUnits(balance, decimalsValue) : undefined),
+        [balance, decimalsValue]
+    );
+
+    /**
+     * Read a metadata field through the shared cache
+     */
+    const readMetadata = useCallback(
+        <T,>(functionName: "name" | "symbol" | "decimals"): Promise<T> =>
+            fetchRead<T>(
+                { chainId, address: tokenAddress, functionName },
+                () => publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName }) as Promise<T>,
+                { cacheTime: METADATA_CACHE_TIME }
+            ),
+        [chainId, tokenAddress, publicClient]
+    );
+
+    /**
+     * Re-read the balance
+     */
     const refreshBalance = useCallback(async () => {
-        if (!address || !tokenAddress) return;
+        await refetch();
+    }, [refetch]);
 
-        setIsLoading(true);
-        try {
-            const bal = await publicClient.readContract({
-                address: tokenAddress,
-                abi: erc20Abi,
-                functionName: "balanceOf",
-                args: [address],
-            });
-            setBalance(bal);
-        } catch (err) {
-            console.error("[Kiroro] Failed to fetch token balance:", err);
-        } finally {
-            setIsLoading(false);
-        }
-    }, [publicClient, address, tokenAddress]);
-
-    // Fetch balance on mount and when address changes
-    useEffect(() => {
-        refreshBalance();
-    }, [refreshBalance]);
+    /**
+     * Convert an amount to base units: bigints are used as-is, strings ("1.5") are whole tokens
+     */
+    const parseAmount = useCallback(
+        async (amount: bigint | string): Promise<bigint> => {
+            if (typeof amount === "bigint") {
+                if (amount < 0n) throw new KiroroError("INVALID_REQUEST", "Amount cannot be negative");
+                return amount;
+            }
+            if (!/^(\d+(\.\d*)?|\.\d+)$/.test(amount.trim())) {
+                throw new KiroroError("INVALID_REQUEST", `Invalid amount: "${amount}"`);
+            }
+
+            const tokenDecimals = await readMetadata<number>("decimals");
+            const [, fraction = ""] = amount.trim().split(".");
+            if (fraction.length > tokenDecimals) {
+                throw new KiroroError("INVALID_REQUEST", `Amount "${amount}" has more than ${tokenDecimals} decimals`);
+            }
+            return parseUnits(amount.trim(), tokenDecimals);
+        },
+        [readMetadata]
+    );
 
     /**
-     * Transfer tokens to another address
+     * Transfer tokens to another address. Fails with INSUFFICIENT_FUNDS before sending
+     * when the amount exceeds the balance, and with NETWORK_ERROR when the balance cannot be read.
      */
     const transfer = useCallback(
-        async (to: `0x${string}`, amount: bigint): Promise<Hash> => {
-            if (!isReady) {
-                throw new Error("[Kiroro] Wallet not ready");
+        async (to: `0x${string}`, amount: bigint | string): Promise<Hash> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
             }
 
-            const hash = await writeContract({
+            const value = await parseAmount(amount);
+            await assertTransferable(publicClient, {
+                token: tokenAddress,
+                owner: address,
+                value,
+                getDecimals: () => readMetadata<number>("decimals"),
+            });
+
+            return writeContract({
                 address: tokenAddress,
                 abi: erc20Abi,
                 functionName: "transfer",
-                args: [to, amount],
+                args: [to, value],
             });
-
-            // Refresh balance after transfer
-            setTimeout(refreshBalance, 2000);
-            return hash;
         },
-        [isReady, writeContract, tokenAddress, refreshBalance]
+        [isReady, address, parseAmount, publicClient, readMetadata, writeContract, tokenAddress]
     );
 
     /**
-     * Approve spender to spend tokens
+     * Approve spender to spend tokens (may exceed the balance, e.g. for standing approvals)
      */
     const approve = useCallback(
-        async (spender: `0x${string}`, amount: bigint): Promise<Hash> => {
+        async (spender: `0x${string}`, amount: bigint | string): Promise<Hash> => {
             if (!isReady) {
-                throw new Error("[Kiroro] Wallet not ready");
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            const value = await parseAmount(amount);
+            if (value === maxUint256) {
+                console.warn(`[Kiroro] Approving an unlimited amount of ${tokenAddress} for ${spender}. Prefer ensureAllowance(spender, amount) to approve only what is needed.`);
             }
 
             return writeContract({
                 address: tokenAddress,
                 abi: erc20Abi,
                 functionName: "approve",
-                args: [spender, amount],
+                args: [spender, value],
             });
         },
-        [isReady, writeContract, tokenAddress]
+        [isReady, parseAmount, writeContract, tokenAddress]
+    );
+
+    /**
+     * Set spender's allowance back to zero
+     */
+    const revoke = useCallback(
+        (spender: `0x${string}`): Promise<Hash> => approve(spender, 0n),
+        [approve]
+    );
+
+    /**
+     * Whether the token accepts EIP-2612 permits from the smart wallet (the ERC-1271 `permit(..., bytes signature)`)
+     */
+    const supportsPermit = useCallback(
+        (): Promise<boolean> => tokenSupportsPermit(publicClient, tokenAddress),
+        [publicClient, tokenAddress]
+    );
+
+    /**
+     * Sign an EIP-2612 permit letting spender spend tokens, without an approval transaction.
+     * The token must accept ERC-1271 signatures (`permit(..., bytes signature)`, see supportsPermit),
+     * and the wallet must be deployed (it is after its first transaction) for the permit to be accepted.
+     */
+    const signPermit = useCallback(
+        async (spender: `0x${string}`, amount: bigint | string, deadline: bigint): Promise<PermitSignature> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            const value = await parseAmount(amount);
+            const { typedData, nonce } = await getPermitTypedData(publicClient, {
+                token: tokenAddress,
+                owner: address,
+                spender,
+                value,
+                deadline,
+            });
+            const signature = await signTypedData(typedData);
+            return { owner: address, spender, value, nonce, deadline, signature };
+        },
+        [isReady, address, parseAmount, publicClient, tokenAddress, signTypedData]
+    );
+
+    /**
+     * Sign a Permit2 allowance for spender (the token must be approved to Permit2 once)
+     */
+    const signPermit2 = useCallback(
+        async (spender: `0x${string}`, amount: bigint | string, options?: Permit2Options): Promise<Permit2Signature<Permit2Single>> =>
+            signPermitSingle(tokenAddress, spender, await parseAmount(amount), options),
+        [signPermitSingle, parseAmount, tokenAddress]
     );
 
     /**
@@ -133,32 +243,69 @@ export function useKiroroToken(tokenAddress: `0x${string}`) {
     );
 
     /**
-     * Get token decimals
+     * Make sure spender may spend `amount`, approving exactly that amount only when the current
+     * allowance is too low. The approval and the optional follow-up call (e.g. a deposit) are sent
+     * as one user operation. Returns the transaction hash, or null when nothing had to be sent.
+     */
+    const ensureAllowance = useCallback(
+        async (
+            spender: `0x${string}`,
+            amount: bigint | string,
+            followUp?: WriteContractsRequest["contracts"][number],
+            options: { gasless?: boolean } = {}
+        ): Promise<Hash | null> => {
+            if (!isReady || !address) {
+                throw new KiroroError("WALLET_NOT_READY", "Wallet not ready");
+            }
+
+            const value = await parseAmount(amount);
+            const current = await allowance(address, spender);
+
+            if (current >= value) {
+                return followUp ? writeContract({ ...followUp, gasless: options.gasless }) : null;
+            }
+
+            const approveCall = (allowanceValue: bigint) => ({
+                address: tokenAddress,
+                abi: erc20Abi,
+                functionName: "approve",
+                args: [spender, allowanceValue],
+            });
+            const contracts: WriteContractsRequest["contracts"][number][] = [
+                // Tokens like USDT reject changing a non-zero allowance to another non-zero value
+                ...(current > 0n ? [approveCall(0n)] : []),
+                approveCall(value),
+                ...(followUp ? [followUp] : []),
+            ];
+
+            const { id } = await writeContracts({ contracts, gasless: options.gasless });
+            return id as Hash;
+        },
+        [isReady, address, parseAmount, allowance, writeContract, writeContracts, tokenAddress]
+    );
+
+    /**
+     * Get token decimals (cached)
      */
-    const decimals = useCallback(async (): Promise<number> => {
-        return publicClient.readContract({
-            address: tokenAddress,
-            abi: erc20Abi,
-            functionName: "decimals",
-        });
-    }, [publicClient, tokenAddress]);
+    const decimals = useCallback((): Promise<number> => readMetadata<number>("decimals"), [readMetadata]);
 
     /**
-     * Get token symbol
+     * Get token symbol (cached)
      */
-    const symbol = useCallback(async (): Promise<string> => {
-        return publicClient.readContract({
-            address: tokenAddress,
-            abi: erc20Abi,
-            functionName: "symbol",
-        });
-    }, [publicClient, tokenAddress]);
+    const symbol = useCallback((): Promise<string> => readMetadata<string>("symbol"), [readMetadata]);
 
     return {
         balance,
+        formattedBalance,
+        metadata,
         isLoading,
         transfer,
         approve,
+        revoke,
+        ensureAllowance,
+        supportsPermit,
+        signPermit,
+        signPermit2,
         allowance,
         decimals,
         symbol,
@@ -0,0 +1,292 @@
+"use client";
+
+import { useMemo, useCallback, useState, useEffect, useRef } from "react";
+import { useThreadsAuth } from "../threads-auth";
+import { useKiroroConfig } from "../context";
+import { KiroroError, toKiroroError } from "../errors";
+import {
+    createThreadsClient,
+    publishThreadsPost,
+    type PageOptions,
+    type PublishOptions,
+    type ThreadsClient,
+} from "../threads-api";
+import type {
+    ThreadsPage,
+    ThreadsPost,
+    ThreadsProfile,
+    ThreadsPublishingLimit,
+    ThreadsPublishRequest,
+    ThreadsPublishResult,
+    ThreadsReply,
+} from "../types";
+
+// Only log in development
+const IS_DEV = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
+
+interface ThreadsQueryOptions {
+    /** Comma-separated Graph API fields (defaults cover the typed fields) */
+    fields?: string;
+    /** Cache lifetime in ms (default: 60s) */
+    cacheTime?: number;
+    /** Set to false to skip fetching */
+    enabled?: boolean;
+}
+
+interface ThreadsPageOptions extends ThreadsQueryOptions {
+    /** Page size (default: 25) */
+    limit?: number;
+}
+
+/**
+ * Threads Graph API client for the logged-in user of the surrounding KiroroProvider
+ */
+function useThreadsClient(cacheTime?: number): ThreadsClient | null {
+    const { user, getAccessToken } = useThreadsAuth();
+    const baseUrl = useKiroroConfig()?.config.threadsApiUrl;
+
+    return useMemo(
+        () => (user ? createThreadsClient({ baseUrl, getAccessToken, cacheScope: user.id, cacheTime }) : null),
+        [user?.id, baseUrl, getAccessToken, cacheTime]
+    );
+}
+
+/**
+ * Loads a cursor-paginated Graph API edge, appending pages on loadMore
+ */
+function useThreadsPages<T>(
+    client: ThreadsClient | null,
+    fetchPage: ((client: ThreadsClient, options: PageOptions) => Promise<ThreadsPage<T>>) | null,
+    { limit, fields, enabled = true }: ThreadsPageOptions
+) {
+    const [items, setItems] = useState<T[]>([]);
+    const [cursor, setCursor] = useState<string | undefined>();
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+
+    // Ignore pages that arrive after the query changed
+    const requestId = useRef(0);
+
+    const load = useCallback(async (after?: string, fresh = false) => {
+        if (!client || !fetchPage || !enabled) return;
+
+        const id = ++requestId.current;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const page = await fetchPage(client, { limit, after, fields, fresh });
+            if (id !== requestId.current) return;
+
+            setItems((prev) => (after ? [...prev, ...page.data] : page.data));
+            setCursor(page.paging?.cursors?.after);
+            setHasMore(!!page.paging?.next);
+        } catch (err: any) {
+            if (id !== requestId.current) return;
+            console.error("[Kiroro] Failed to fetch from Threads:", err);
+            setError(toKiroroError(err, "THREADS_API_ERROR"));
+        } finally {
+            if (id === requestId.current) setIsLoading(false);
+        }
+    }, [client, fetchPage, enabled, limit, fields]);
+
+    // First page on mount and whenever the query changes
+    useEffect(() => {
+        setItems([]);
+        setCursor(undefined);
+        setHasMore(false);
+        load();
+    }, [load]);
+
+    /**
+     * Fetch the next page
+     */
+    const loadMore = useCallback(async () => {
+        if (!hasMore || isLoading) return;
+        await load(cursor);
+    }, [hasMore, isLoading, load, cursor]);
+
+    /**
+     * Reload the first page, bypassing the cache
+     */
+    const refetch = useCallback(() => load(undefined, true), [load]);
+
+    return {
+        items,
+        isLoading,
+        error,
+        hasMore,
+        loadMore,
+        refetch,
+    };
+}
+
+/**
+ * Threads profile of the logged-in user
+ *
+ * @example
+ * ```tsx
+ * import { useThreadsProfile } from "@kirorolabs/sdk";
+ *
+ * function Profile() {
+ *   const { profile, isLoading } = useThreadsProfile();
+ *   if (isLoading || !profile) return null;
+ *   return <p>{profile.name} (@{profile.username})</p>;
+ * }
+ * ```
+ */
+export function useThreadsProfile(options: ThreadsQueryOptions = {}) {
+    const { fields, cacheTime, enabled = true } = options;
+    const client = useThreadsClient(cacheTime);
+    const [profile, setProfile] = useState<ThreadsProfile | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+
+    const load = useCallback(async (fresh = false) => {
+        if (!client || !enabled) {
+            setProfile(null);
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            setProfile(await client.getProfile(fields, fresh));
+        } catch (err: any) {
+            console.error("[Kiroro] Failed to fetch Threads profile:", err);
+            setError(toKiroroError(err, "THREADS_API_ERROR"));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [client, enabled, fields]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    /**
+     * Reload the profile, bypassing the cache
+     */
+    const refetch = useCallback(() => load(true), [load]);
+
+    return { profile, isLoading, error, refetch };
+}
+
+/**
+ * Paginated Threads posts of the logged-in user (or another user ID), newest first
+ *
+ * @example
+ * ```tsx
+ * const { posts, hasMore, loadMore } = useThreadsPosts({ limit: 10 });
+ * ```
+ */
+export function useThreadsPosts(options: ThreadsPageOptions & { userId?: string } = {}) {
+    const { userId = "me", cacheTime } = options;
+    const client = useThreadsClient(cacheTime);
+
+    const fetchPage = useCallback(
+        (threads: ThreadsClient, page: PageOptions) => threads.getPosts(userId, page),
+        [userId]
+    );
+    const { items, ...rest } = useThreadsPages<ThreadsPost>(client, fetchPage, options);
+
+    return { posts: items, ...rest };
+}
+
+/**
+ * Paginated top-level replies to a Threads post
+ *
+ * @example
+ * ```tsx
+ * const { replies, hasMore, loadMore } = useThreadsReplies(post.id);
+ * ```
+ */
+export function useThreadsReplies(mediaId: string | undefined, options: ThreadsPageOptions = {}) {
+    const client = useThreadsClient(options.cacheTime);
+
+    const fetchPage = useMemo(
+        () => (mediaId ? (threads: ThreadsClient, page: PageOptions) => threads.getReplies(mediaId, page) : null),
+        [mediaId]
+    );
+    const { items, ...rest } = useThreadsPages<ThreadsReply>(client, fetchPage, options);
+
+    return { replies: items, ...rest };
+}
+
+/**
+ * Publish to Threads on behalf of the logged-in user.
+ * Requires the threads_content_publish permission (and threads_manage_replies for replies).
+ *
+ * @example
+ * ```tsx
+ * import { useThreadsPublish } from "@kirorolabs/sdk";
+ *
+ * function ShareMint({ imageUrl }: { imageUrl: string }) {
+ *   const { publish, isPublishing } = useThreadsPublish();
+ *
+ *   const share = () => publish({
+ *     text: "I just minted a Kiroro NFT!",
+ *     media: { type: "IMAGE", url: imageUrl },
+ *   });
+ *
+ *   return <button onClick={share} disabled={isPublishing}>Share on Threads</button>;
+ * }
+ * ```
+ */
+export function useThreadsPublish(options: PublishOptions = {}) {
+    const client = useThreadsClient();
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [error, setError] = useState<KiroroError | null>(null);
+
+    const { pollInterval, pollTimeout } = options;
+
+    /**
+     * Publish a text, image, video or carousel post (optionally as a reply or quote)
+     */
+    const publish = useCallback(async (request: ThreadsPublishRequest): Promise<ThreadsPublishResult> => {
+        if (!client) {
+            throw new KiroroError("NOT_AUTHENTICATED", "Not authenticated with Threads");
+        }
+
+        setIsPublishing(true);
+        setError(null);
+        try {
+            const result = await publishThreadsPost(client, request, { pollInterval, pollTimeout });
+            if (IS_DEV) console.log("[Kiroro] Published to Threads:", result.id);
+            return result;
+        } catch (err: any) {
+            const error = toKiroroError(err, "THREADS_API_ERROR");
+            setError(error);
+            throw error;
+        } finally {
+            setIsPublishing(false);
+        }
+    }, [client, pollInterval, pollTimeout]);
+
+    /**
+     * Reply to a post
+     */
+    const reply = useCallback(
+        (replyToId: string, request: Omit<ThreadsPublishRequest, "replyToId">) => publish({ ...request, replyToId }),
+        [publish]
+    );
+
+    /**
+     * Quote a post
+     */
+    const quote = useCallback(
+        (quotePostId: string, request: Omit<ThreadsPublishRequest, "quotePostId">) => publish({ ...request, quotePostId }),
+        [publish]
+    );
+
+    /**
+     * Posts used / allowed in the current 24h window
+     */
+    const getPublishingLimit = useCallback(async (): Promise<ThreadsPublishingLimit | null> => {
+        if (!client) return null;
+        const { data } = await client.getPublishingLimit();
+        return data[0] ?? null;
+    }, [client]);
+
+    return { publish, reply, quote, getPublishingLimit, isPublishing, error };
+}
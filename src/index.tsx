@@ -1,15 +1,20 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { PrivyProvider, usePrivy } from "@privy-io/react-auth";
 import { SmartWalletsProvider } from "@privy-io/react-auth/smart-wallets";
 import { useSolanaWallets } from "@privy-io/react-auth/solana";
-import { base, baseSepolia, arbitrum, optimism, polygon, mainnet } from "viem/chains";
-import { ThreadsAuthProvider, useThreadsAuth } from "./threads-auth";
+import { ThreadsAuthProvider, useThreadsAuth, type RedirectLoginResult } from "./threads-auth";
+import { KiroroEventsProvider, useKiroroEventBus } from "./hooks/useKiroroEvents";
+import { KiroroConfigContext } from "./context";
+import { chainConfigKey, createChainRegistry, type KiroroChainRegistry } from "./chains";
+import { KiroroWalletBridge } from "./wallet";
+import { KiroroError } from "./errors";
 import type {
     KiroroUser,
     KiroroConfig,
     KiroroAuthContextType,
+    ThreadsAuthResponse,
     ValidateKeyResponse
 } from "./types";
 
@@ -18,25 +23,142 @@ export type {
     KiroroUser,
     KiroroConfig,
     KiroroAuthContextType,
+    KiroroLoginMode,
     KiroroWalletContextType,
     SendTransactionRequest,
     WriteContractRequest,
+    ReadContractRequest,
+    WriteStateMutability,
+    ReadStateMutability,
+    KiroroCall,
+    SendCallsRequest,
+    WriteContractsRequest,
+    SendCallsResult,
+    CallsStatus,
+    SimulationResult,
     TypedDataDefinition,
+    ThreadsProfile,
+    ThreadsPost,
+    ThreadsReply,
+    ThreadsMediaType,
+    ThreadsPage,
+    ThreadsPublishMedia,
+    ThreadsPublishRequest,
+    ThreadsPublishResult,
+    ThreadsContainerStatus,
+    ThreadsPublishingLimit,
+    KiroroWalletLink,
+    PortfolioToken,
+    PortfolioBalance,
+    PermitSignature,
+    Permit2Details,
+    Permit2Single,
+    Permit2Batch,
+    Permit2Signature,
+    Permit2Options,
+    TokenApproval,
+    MetadataGateways,
+    NftAttribute,
+    NftMetadata,
 } from "./types";
 
 // Re-export wallet hook
 export { useKiroroWallet, SUPPORTED_CHAINS } from "./wallet";
 
+// Chain registry
+export { createChainRegistry, DEFAULT_CHAINS } from "./chains";
+export type { KiroroChainRegistry } from "./chains";
+
+// EIP-1193 provider backed by the Kiroro smart wallet
+export { createKiroroEip1193Provider } from "./eip1193";
+export type { KiroroEip1193Provider } from "./eip1193";
+
 // Re-export helper hooks
 export {
     useKiroroToken,
     useKiroroNFT,
+    useKiroroMultiToken,
+    useKiroroPermit2,
+    useKiroroApprovals,
     useKiroroClient,
+    useKiroroRead,
+    useKiroroPortfolio,
+    useKiroroSiwe,
+    useThreadsProfile,
+    useThreadsPosts,
+    useThreadsReplies,
+    useThreadsPublish,
     useKiroroEvents,
+    createKiroroEventBus,
+    KiroroEventsProvider,
 } from "./hooks";
+export type { KiroroEventBus, KiroroEventRecord, SubscribeOptions, UseKiroroReadOptions, UseKiroroPortfolioOptions, UseKiroroApprovalsOptions } from "./hooks";
+
+export { invalidateKiroroReads, clearKiroroReadCache } from "./read-cache";
+export type { LogScanOptions, LogScanResult } from "./logs";
+
+export { resolveKiroroUri, fetchKiroroMetadata, DEFAULT_IPFS_GATEWAY, DEFAULT_ARWEAVE_GATEWAY } from "./metadata";
 
 export { useKiroroSolana } from "./solana";
 
+export { KiroroError, isKiroroError, toKiroroError } from "./errors";
+export type { KiroroErrorCode } from "./errors";
+
+export { TransactionSimulationError } from "./simulate";
+
+export {
+    PERMIT2_ADDRESS,
+    supportsPermit,
+    getPermitTypedData,
+    getPermit2Details,
+    getPermit2TypedData,
+} from "./permit";
+
+export { verifyKiroroMessage, verifyKiroroTypedData } from "./verify";
+export type {
+    KiroroVerifyClientOptions,
+    VerifyKiroroMessageParameters,
+    VerifyKiroroTypedDataParameters,
+} from "./verify";
+
+export {
+    createKiroroSiweMessage,
+    parseKiroroSiweMessage,
+    validateKiroroSiweMessage,
+    verifyKiroroSiweMessage,
+} from "./siwe";
+export type { KiroroSiweMessageParameters, KiroroSiweLink, ValidateKiroroSiweParameters } from "./siwe";
+
+export {
+    createThreadsClient,
+    clearThreadsCache,
+    publishThreadsPost,
+    waitForContainer,
+    ThreadsApiError,
+    ThreadsPermissionError,
+    ThreadsRateLimitError,
+} from "./threads-api";
+export type { ThreadsClient, ThreadsClientOptions, ThreadsContainerParams, PublishOptions } from "./threads-api";
+
+export { PaymasterRejectedError, isPaymasterRejection } from "./paymaster";
+
+export { isInAppBrowser, KiroroAuthError } from "./threads-auth";
+export type { RedirectLoginResult, KiroroAuthErrorCode } from "./threads-auth";
+
+export {
+    createLocalStorage,
+    createSessionStorage,
+    createMemoryStorage,
+    createCookieStorage,
+    createEncryptedStorage,
+} from "./storage";
+export type {
+    KiroroStorage,
+    KiroroSyncStorage,
+    CookieStorageOptions,
+    EncryptedStorageOptions,
+} from "./storage";
+
 // Constants
 const DEFAULT_BACKEND = "https://app.kiroro.xyz";
 const DEFAULT_PRIVY_APP_ID = process.env.NEXT_PUBLIC_PRIVY_APP_ID || "cmk2ylfti000jjj0drm8hn5d2";
@@ -65,19 +187,24 @@ interface KiroroProviderProps {
  */
 function KiroroInternalProvider({
     children,
-    config
+    config,
+    chains
 }: {
     children: React.ReactNode;
     config: KiroroConfig;
+    chains: KiroroChainRegistry;
 }) {
     const { user: privyUser, ready: privyReady, createWallet } = usePrivy();
     const { wallets: solanaWallets } = useSolanaWallets();
+    const events = useKiroroEventBus();
     const {
         user: threadsUser,
         accessToken: threadsToken,
         isLoading: threadsLoading,
         error: threadsError,
+        authError,
         initiateThreadsLogin,
+        handleCallback: threadsHandleCallback,
         logout: threadsLogout,
         getAccessToken
     } = useThreadsAuth();
@@ -85,7 +212,7 @@ function KiroroInternalProvider({
     const [user, setUser] = useState<KiroroUser | null>(null);
     const [isValidated, setIsValidated] = useState(false);
     const [validating, setValidating] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<KiroroError | null>(null);
     const [projectName, setProjectName] = useState<string | null>(null);
     const [tier, setTier] = useState<string | null>(null);
 
@@ -95,7 +222,7 @@ function KiroroInternalProvider({
     useEffect(() => {
         const validateKey = async () => {
             if (!config.kiroroClientId) {
-                setError("kiroroClientId is required");
+                setError(new KiroroError("INVALID_API_KEY", "kiroroClientId is required"));
                 setValidating(false);
                 return;
             }
@@ -115,13 +242,16 @@ function KiroroInternalProvider({
                     setTier(data.tier || "starter");
                     if (IS_DEV) console.log(`[Kiroro] ✓ Connected to "${data.projectName}" (${data.tier} tier)`);
                 } else {
-                    setError(data.error || "Invalid API Key");
+                    setError(new KiroroError(
+                        data.limitExceeded || response.status === 429 ? "LIMIT_EXCEEDED" : "INVALID_API_KEY",
+                        data.error || "Invalid API Key"
+                    ));
                     console.error(`[Kiroro] ✗ ${data.error || "Invalid Client ID"}`);
                 }
             } catch (err) {
                 // SECURITY: Do NOT default to validated when backend is unreachable
                 console.error("[Kiroro] Backend unreachable. Cannot validate API key.");
-                setError("Cannot validate API key - please check your network connection");
+                setError(new KiroroError("NETWORK_ERROR", "Cannot validate API key - please check your network connection", err));
                 setIsValidated(false);
             } finally {
                 setValidating(false);
@@ -150,15 +280,19 @@ function KiroroInternalProvider({
             // Only create wallet if user is FULLY authenticated with privy
             if (privyUser && !walletAddress && typeof createWallet === 'function') {
                 console.log("[Kiroro] Creating embedded wallet...");
-                createWallet().catch((err: any) => {
-                    // Ignore if already creating or unrelated error
-                    console.warn("[Kiroro] Wallet creation skipped:", err.message);
-                });
+                createWallet()
+                    .then((wallet) => {
+                        events.emitWalletCreated(wallet.address as `0x${string}`);
+                    })
+                    .catch((err: any) => {
+                        // Ignore if already creating or unrelated error
+                        console.warn("[Kiroro] Wallet creation skipped:", err.message);
+                    });
             }
         } else if (!threadsUser) {
             setUser(null);
         }
-    }, [threadsUser, privyReady, privyUser, createWallet]);
+    }, [threadsUser, privyReady, privyUser, createWallet, events]);
 
     // Update wallet address when Privy user changes
     useEffect(() => {
@@ -174,7 +308,9 @@ function KiroroInternalProvider({
                     solanaWalletAddress: newSolanaAddress
                 } : null);
 
-                // Sync to backend
+                // Sync to backend. This is a display hint, not an ownership proof: the backend must
+                // not trust these addresses for anything that matters, only links verified over SIWE
+                // (useKiroroSiwe, /api/siwe/verify)
                 const syncToBackend = async () => {
                     try {
                         const token = await getAccessToken();
@@ -206,11 +342,21 @@ function KiroroInternalProvider({
      */
     const login = useCallback(() => {
         if (!isValidated && !validating) {
-            console.error(`[Kiroro] Cannot login: ${error || "Invalid API Key"}`);
+            console.error(`[Kiroro] Cannot login: ${error?.message || "Invalid API Key"}`);
             return;
         }
-        initiateThreadsLogin(config.kiroroClientId, backendUrl);
-    }, [isValidated, validating, error, initiateThreadsLogin, config.kiroroClientId, backendUrl]);
+        initiateThreadsLogin(config.kiroroClientId, backendUrl, {
+            mode: config.loginMode,
+            redirectUri: config.redirectUri,
+        });
+    }, [isValidated, validating, error, initiateThreadsLogin, config.kiroroClientId, backendUrl, config.loginMode, config.redirectUri]);
+
+    /**
+     * Exchange an OAuth code from a redirect callback
+     */
+    const handleCallback = useCallback((code: string, state?: string): Promise<ThreadsAuthResponse> => {
+        return threadsHandleCallback(code, config.kiroroClientId, backendUrl, state);
+    }, [threadsHandleCallback, config.kiroroClientId, backendUrl]);
 
     /**
      * Logout
@@ -222,26 +368,45 @@ function KiroroInternalProvider({
 
     const isLoading = !privyReady || validating || threadsLoading;
 
+    const configContext = useMemo(() => ({ config, backendUrl, tier, chains }), [config, backendUrl, tier, chains]);
+
     return (
-        <KiroroAuthContext.Provider
-            value={{
-                user,
-                isAuthenticated: !!user,
-                isLoading,
-                isValidated,
-                error: error || threadsError,
-                projectName,
-                tier,
-                login,
-                logout,
-                getAccessToken,
-            }}
-        >
-            {children}
-        </KiroroAuthContext.Provider>
+        <KiroroConfigContext.Provider value={configContext}>
+            <KiroroAuthContext.Provider
+                value={{
+                    user,
+                    isAuthenticated: !!user,
+                    isLoading,
+                    isValidated,
+                    error: error || threadsError,
+                    authError,
+                    projectName,
+                    tier,
+                    login,
+                    logout,
+                    getAccessToken,
+                    handleCallback,
+                }}
+            >
+                <KiroroWalletBridge />
+                {children}
+            </KiroroAuthContext.Provider>
+        </KiroroConfigContext.Provider>
     );
 }
 
+/**
+ * Keeps the previous chain configs while their serialized content is unchanged
+ */
+function useStableChainConfig(chains: KiroroConfig["chains"], defaultChain: KiroroConfig["defaultChain"]) {
+    const key = chainConfigKey([defaultChain, ...(chains ?? [])]);
+    const stable = useRef({ key, chains, defaultChain });
+    if (stable.current.key !== key) {
+        stable.current = { key, chains, defaultChain };
+    }
+    return stable.current;
+}
+
 /**
  * Main Kiroro Provider - wrap your app with this
  * 
@@ -261,16 +426,37 @@ function KiroroInternalProvider({
 export function KiroroProvider({ children, config }: KiroroProviderProps) {
     const backendUrl = config.backendUrl || DEFAULT_BACKEND;
 
+    // Rebuild the registry only when the chain configs change (inline configs create new arrays every render)
+    const { chains: chainConfigs, defaultChain } = useStableChainConfig(config.chains, config.defaultChain);
+    const chains = useMemo(
+        () => createChainRegistry({ chains: chainConfigs, defaultChain }),
+        [chainConfigs, defaultChain]
+    );
+
     return (
-        <ThreadsAuthProvider backendUrl={backendUrl}>
-            <PrivyWrapper config={config}>
-                {children}
-            </PrivyWrapper>
-        </ThreadsAuthProvider>
+        <KiroroEventsProvider>
+            <ThreadsAuthProvider
+                backendUrl={backendUrl}
+                onSessionExpired={config.onSessionExpired}
+                storage={config.storage}
+            >
+                <PrivyWrapper config={config} chains={chains}>
+                    {children}
+                </PrivyWrapper>
+            </ThreadsAuthProvider>
+        </KiroroEventsProvider>
     );
 }
 
-function PrivyWrapper({ children, config }: { children: React.ReactNode; config: KiroroConfig }) {
+function PrivyWrapper({
+    children,
+    config,
+    chains
+}: {
+    children: React.ReactNode;
+    config: KiroroConfig;
+    chains: KiroroChainRegistry;
+}) {
     const privyAppId = config.privyAppId || DEFAULT_PRIVY_APP_ID;
     const theme = config.appearance?.theme || "dark";
     const { getAccessToken, isLoading: isThreadsLoading } = useThreadsAuth();
@@ -288,8 +474,8 @@ function PrivyWrapper({ children, config }: { children: React.ReactNode; config:
                 embeddedWallets: {
                     createOnLogin: "users-without-wallets",
                 },
-                defaultChain: base,
-                supportedChains: [base],
+                defaultChain: chains.defaultChain,
+                supportedChains: [...chains.chains],
                 solanaClusters: config.solanaClusters || [],
                 customAuth: {
                     enabled: true,
@@ -301,8 +487,8 @@ function PrivyWrapper({ children, config }: { children: React.ReactNode; config:
                 }
             }}
         >
-            <SmartWalletsProvider>
-                <KiroroInternalProvider config={config}>
+            <SmartWalletsProvider config={{ paymasterContext: config.paymaster?.context }}>
+                <KiroroInternalProvider config={config} chains={chains}>
                     {children}
                 </KiroroInternalProvider>
             </SmartWalletsProvider>
@@ -355,3 +541,62 @@ export function KiroroConnectButton({
         </button>
     );
 }
+
+/**
+ * Drop-in component for the redirect login callback route.
+ * Finishes the code exchange, then sends the user back to where login started.
+ *
+ * @example
+ * ```tsx
+ * // app/auth/callback/page.tsx, with config.loginMode = "redirect" and
+ * // config.redirectUri = "https://yourapp.com/auth/callback"
+ * export default function Callback() {
+ *   return <KiroroAuthCallback />;
+ * }
+ * ```
+ */
+export function KiroroAuthCallback({
+    redirectTo,
+    onSuccess,
+    onError,
+    children,
+}: {
+    /** Where to go after a successful login (default: the page login started from, or "/") */
+    redirectTo?: string;
+    /** Called on success instead of navigating */
+    onSuccess?: (result: RedirectLoginResult) => void;
+    /** Called when the login failed */
+    onError?: (error: KiroroError) => void;
+    children?: React.ReactNode;
+}) {
+    const { completeRedirectLogin } = useThreadsAuth();
+    const [error, setError] = useState<KiroroError | null>(null);
+    const started = useRef(false);
+
+    useEffect(() => {
+        // Codes are single-use: guard against StrictMode running effects twice
+        if (started.current) return;
+        started.current = true;
+
+        completeRedirectLogin().then((result) => {
+            if (!result || !result.success) {
+                const failure = result?.failure
+                    ?? new KiroroError(result ? "AUTH_FAILED" : "INVALID_REQUEST", result ? "Authentication failed" : "Missing authorization code");
+                setError(failure);
+                onError?.(failure);
+                return;
+            }
+            if (onSuccess) {
+                onSuccess(result);
+            } else {
+                window.location.replace(redirectTo || result.returnTo || "/");
+            }
+        });
+    }, []);
+
+    if (error) {
+        return <div className="kiroro-callback kiroro-callback-error">{error.message}</div>;
+    }
+
+    return <>{children ?? <div className="kiroro-callback">Signing you in...</div>}</>;
+}
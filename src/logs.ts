@@ -0,0 +1,49 @@
+"use client";
+
+import type { PublicClient } from "viem";
+import { KiroroError } from "./errors";
+
+// How far back to look for events when no fromBlock is given
+export const DEFAULT_LOOKBACK_BLOCKS = 100_000n;
+// Largest block range per eth_getLogs request (public RPCs reject wider ranges)
+export const DEFAULT_BLOCK_RANGE = 10_000n;
+
+export interface LogScanOptions {
+    /** First block to scan (default: the last 100,000 blocks, which may miss older events) */
+    fromBlock?: bigint;
+    /** Blocks per getLogs request (default: 10,000) */
+    blockRange?: bigint;
+}
+
+export interface LogScanResult<TLog> {
+    logs: TLog[];
+    /** First block scanned */
+    fromBlock: bigint;
+    /** Last block scanned */
+    toBlock: bigint;
+    /** No fromBlock was given and the default window did not reach the genesis block: older events were not scanned */
+    isPartial: boolean;
+}
+
+/**
+ * Runs `getLogs` over [fromBlock, latest] in chunks of `blockRange` blocks, oldest first
+ */
+export async function scanLogs<TLog>(
+    publicClient: PublicClient,
+    getLogs: (range: { fromBlock: bigint; toBlock: bigint }) => Promise<readonly TLog[]>,
+    { fromBlock, blockRange = DEFAULT_BLOCK_RANGE }: LogScanOptions = {}
+): Promise<LogScanResult<TLog>> {
+    if (blockRange <= 0n) {
+        throw new KiroroError("INVALID_REQUEST", "blockRange must be a positive number of blocks.");
+    }
+
+    const latest = await publicClient.getBlockNumber();
+    const start = fromBlock ?? (latest > DEFAULT_LOOKBACK_BLOCKS ? latest - DEFAULT_LOOKBACK_BLOCKS : 0n);
+
+    const logs: TLog[] = [];
+    for (let from = start; from <= latest; from += blockRange) {
+        const to = from + blockRange - 1n < latest ? from + blockRange - 1n : latest;
+        logs.push(...await getLogs({ fromBlock: from, toBlock: to }));
+    }
+    return { logs, fromBlock: start, toBlock: latest, isPartial: fromBlock === undefined && start > 0n };
+}
@@ -0,0 +1,133 @@
+import { KiroroError } from "./errors";
+import type { MetadataGateways, NftAttribute, NftMetadata } from "./types";
+
+export const DEFAULT_IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+export const DEFAULT_ARWEAVE_GATEWAY = "https://arweave.net/";
+// Metadata documents kept in memory
+const MAX_CACHED_METADATA = 500;
+
+const DATA_URI_PATTERN = /^data:([^,]*?)(;base64)?,(.*)$/s;
+
+function withTrailingSlash(url: string): string {
+    return url.endsWith("/") ? url : `${url}/`;
+}
+
+/**
+ * Turns an ipfs:// or ar:// URI into a gateway URL. HTTP(S) and data: URIs are returned unchanged.
+ *
+ * @example
+ * ```ts
+ * resolveKiroroUri("ipfs://QmHash/1.json"); // "https://ipfs.io/ipfs/QmHash/1.json"
+ * ```
+ */
+export function resolveKiroroUri(uri: string, gateways: MetadataGateways = {}): string {
+    const trimmed = uri.trim();
+    if (trimmed.startsWith("ipfs://")) {
+        // Both ipfs://CID/path and ipfs://ipfs/CID/path are in use
+        const path = trimmed.slice("ipfs://".length).replace(/^ipfs\//, "");
+        return `${withTrailingSlash(gateways.ipfs ?? DEFAULT_IPFS_GATEWAY)}${path}`;
+    }
+    if (trimmed.startsWith("ar://")) {
+        return `${withTrailingSlash(gateways.arweave ?? DEFAULT_ARWEAVE_GATEWAY)}${trimmed.slice("ar://".length)}`;
+    }
+    return trimmed;
+}
+
+/**
+ * Decodes a data: URI (base64 or URL-encoded) to text
+ */
+function decodeDataUri(uri: string): string {
+    const match = DATA_URI_PATTERN.exec(uri);
+    if (!match) {
+        throw new KiroroError("INVALID_REQUEST", "Malformed data: URI");
+    }
+    const [, , base64, payload] = match;
+    if (base64) {
+        const binary = atob(payload);
+        return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    }
+    try {
+        return decodeURIComponent(payload);
+    } catch {
+        // Raw JSON with a literal "%"
+        return payload;
+    }
+}
+
+function parseAttributes(raw: Record<string, unknown>): NftAttribute[] {
+    const list = Array.isArray(raw.attributes) ? raw.attributes : Array.isArray(raw.traits) ? raw.traits : [];
+    return list.filter((attribute): attribute is NftAttribute =>
+        !!attribute && typeof attribute === "object" && "value" in attribute
+    );
+}
+
+function parseMetadata(raw: Record<string, unknown>, gateways: MetadataGateways): NftMetadata {
+    const imageUri = typeof raw.image === "string" ? raw.image : typeof raw.image_url === "string" ? raw.image_url : undefined;
+    // On-chain SVGs are sometimes inlined as image_data
+    const image = imageUri !== undefined
+        ? resolveKiroroUri(imageUri, gateways)
+        : typeof raw.image_data === "string" ? `data:image/svg+xml;utf8,${encodeURIComponent(raw.image_data)}` : undefined;
+
+    return {
+        name: typeof raw.name === "string" ? raw.name : undefined,
+        description: typeof raw.description === "string" ? raw.description : undefined,
+        image,
+        attributes: parseAttributes(raw),
+        raw,
+    };
+}
+
+async function loadMetadataJson(uri: string, gateways: MetadataGateways): Promise<Record<string, unknown>> {
+    let text: string;
+    if (uri.startsWith("data:")) {
+        text = decodeDataUri(uri);
+    } else {
+        const url = resolveKiroroUri(uri, gateways);
+        if (!/^https?:\/\//i.test(url)) {
+            throw new KiroroError("INVALID_REQUEST", `Unsupported metadata URI: ${uri}`);
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(url);
+        } catch (err) {
+            throw new KiroroError("NETWORK_ERROR", `Failed to fetch metadata from ${url}`, err);
+        }
+        if (!response.ok) {
+            throw new KiroroError("NETWORK_ERROR", `Failed to fetch metadata from ${url} (${response.status})`);
+        }
+        text = await response.text();
+    }
+
+    try {
+        const json = JSON.parse(text);
+        if (!json || typeof json !== "object" || Array.isArray(json)) throw new Error("Not an object");
+        return json;
+    } catch (err) {
+        throw new KiroroError("INVALID_REQUEST", `Token metadata at ${uri.slice(0, 100)} is not a JSON object`, err);
+    }
+}
+
+// Metadata by URI and gateways (in-flight requests are shared too)
+const metadataCache = new Map<string, Promise<NftMetadata>>();
+
+/**
+ * Fetches and parses token metadata from a tokenURI / uri:
+ * ipfs://, ar://, data:application/json (base64 or plain) and HTTP(S) URIs.
+ */
+export function fetchKiroroMetadata(uri: string, gateways: MetadataGateways = {}): Promise<NftMetadata> {
+    const key = `${gateways.ipfs ?? ""}|${gateways.arweave ?? ""}|${uri}`;
+    const cached = metadataCache.get(key);
+    if (cached) return cached;
+
+    const promise = loadMetadataJson(uri.trim(), gateways).then((raw) => parseMetadata(raw, gateways));
+    metadataCache.set(key, promise);
+    if (metadataCache.size > MAX_CACHED_METADATA) {
+        metadataCache.delete(metadataCache.keys().next().value as string);
+    }
+    // Failed lookups can be retried
+    promise.catch(() => {
+        if (metadataCache.get(key) === promise) metadataCache.delete(key);
+    });
+    return promise;
+}
@@ -0,0 +1,115 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { entryPoint07Address, type GetPaymasterStubDataParameters } from "viem/account-abstraction";
+import { PaymasterRejectedError, createKiroroPaymaster, isPaymasterRejection, isTierSponsored } from "./paymaster";
+
+type RpcRequest = { id: number; method: string; params: unknown[] };
+
+// Answer of the mock paymaster service to the next request
+let reply: (request: RpcRequest) => { result?: unknown; error?: { code: number; message: string } };
+let received: RpcRequest[] = [];
+
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const request = JSON.parse(body) as RpcRequest;
+            received.push(request);
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, ...reply(request) }));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    received = [];
+});
+
+const userOperation: GetPaymasterStubDataParameters = {
+    chainId: 8453,
+    entryPointAddress: entryPoint07Address,
+    sender: "0x1111111111111111111111111111111111111111",
+    nonce: 0n,
+    callData: "0x",
+    callGasLimit: 100_000n,
+    verificationGasLimit: 100_000n,
+    preVerificationGas: 50_000n,
+    maxFeePerGas: 1_000_000n,
+    maxPriorityFeePerGas: 1_000n,
+};
+
+const stubData = {
+    paymaster: "0x2222222222222222222222222222222222222222",
+    paymasterData: "0x1234",
+    paymasterVerificationGasLimit: "0x186a0",
+    paymasterPostOpGasLimit: "0x0",
+};
+
+describe("createKiroroPaymaster", () => {
+    it("calls pm_getPaymasterStubData with the configured context", async () => {
+        reply = () => ({ result: stubData });
+        const paymaster = createKiroroPaymaster({ url, context: { policyId: "kiroro" } });
+
+        const result = await paymaster.getPaymasterStubData(userOperation);
+
+        expect(received).toHaveLength(1);
+        const [{ method, params }] = received;
+        expect(method).toBe("pm_getPaymasterStubData");
+        expect(params[1]).toBe(entryPoint07Address);
+        expect(params[2]).toBe("0x2105");
+        expect(params[3]).toEqual({ policyId: "kiroro" });
+        expect(result.paymaster).toBe(stubData.paymaster);
+        expect(result.paymasterVerificationGasLimit).toBe(100_000n);
+    });
+
+    it("prefers the context passed with the request", async () => {
+        reply = () => ({ result: stubData });
+        const paymaster = createKiroroPaymaster({ url, context: { policyId: "kiroro" } });
+
+        await paymaster.getPaymasterStubData({ ...userOperation, context: { policyId: "other" } });
+
+        expect(received[0].params[3]).toEqual({ policyId: "other" });
+    });
+
+    it("calls pm_getPaymasterData", async () => {
+        reply = () => ({ result: { paymaster: stubData.paymaster, paymasterData: "0xabcd" } });
+        const paymaster = createKiroroPaymaster({ url });
+
+        const result = await paymaster.getPaymasterData(userOperation);
+
+        expect(received[0].method).toBe("pm_getPaymasterData");
+        expect(result.paymasterData).toBe("0xabcd");
+    });
+
+    it("throws a PaymasterRejectedError when the service refuses", async () => {
+        reply = () => ({ error: { code: -32602, message: "policy limit reached" } });
+        const paymaster = createKiroroPaymaster({ url });
+
+        const error = await paymaster.getPaymasterStubData(userOperation).catch((err) => err);
+
+        expect(error).toBeInstanceOf(PaymasterRejectedError);
+        expect(error.code).toBe("PAYMASTER_REJECTED");
+        expect(isPaymasterRejection(new Error("wrapped", { cause: error }))).toBe(true);
+    });
+});
+
+describe("isTierSponsored", () => {
+    it("sponsors only the allowlisted tiers", () => {
+        expect(isTierSponsored("Pro")).toBe(true);
+        expect(isTierSponsored("enterprise")).toBe(true);
+        expect(isTierSponsored("free")).toBe(false);
+        expect(isTierSponsored("unknown-tier")).toBe(false);
+        expect(isTierSponsored(null)).toBe(false);
+    });
+});
@@ -0,0 +1,83 @@
+"use client";
+
+import { http } from "viem";
+import {
+    createPaymasterClient,
+    type GetPaymasterDataParameters,
+    type GetPaymasterDataReturnType,
+    type GetPaymasterStubDataParameters,
+    type GetPaymasterStubDataReturnType,
+} from "viem/account-abstraction";
+import { KiroroError } from "./errors";
+import type { KiroroConfig } from "./types";
+
+// Tiers entitled to sponsored transactions (unknown or new tiers are not sponsored)
+const SPONSORED_TIERS = ["pro", "business", "enterprise"];
+
+/**
+ * Thrown when the paymaster (or the project's tier) refuses to sponsor a transaction
+ */
+export class PaymasterRejectedError extends KiroroError {
+    constructor(message: string, cause?: unknown) {
+        super("PAYMASTER_REJECTED", `Sponsorship refused: ${message}`, cause);
+        this.name = "PaymasterRejectedError";
+    }
+}
+
+/**
+ * Returns true if the error (or any error in its cause chain) is a paymaster rejection
+ */
+export function isPaymasterRejection(error: unknown): boolean {
+    let current: any = error;
+    while (current) {
+        if (current instanceof PaymasterRejectedError) return true;
+        current = current.cause;
+    }
+    return false;
+}
+
+/**
+ * Whether a project tier (as returned by validate-key) can use gasless transactions
+ */
+export function isTierSponsored(tier: string | null): boolean {
+    if (!tier) return false;
+    return SPONSORED_TIERS.includes(tier.toLowerCase());
+}
+
+export interface KiroroPaymaster {
+    getPaymasterStubData: (parameters: GetPaymasterStubDataParameters) => Promise<GetPaymasterStubDataReturnType>;
+    getPaymasterData: (parameters: GetPaymasterDataParameters) => Promise<GetPaymasterDataReturnType>;
+}
+
+/**
+ * Creates an ERC-7677 paymaster that calls `pm_getPaymasterStubData` and
+ * `pm_getPaymasterData` on the configured paymaster service.
+ *
+ * Any error returned by the service is surfaced as a PaymasterRejectedError.
+ */
+export function createKiroroPaymaster(paymaster: NonNullable<KiroroConfig["paymaster"]>): KiroroPaymaster {
+    const client = createPaymasterClient({ transport: http(paymaster.url) });
+
+    return {
+        getPaymasterStubData: async (parameters) => {
+            try {
+                return await client.getPaymasterStubData({
+                    ...parameters,
+                    context: parameters.context ?? paymaster.context,
+                });
+            } catch (err: any) {
+                throw new PaymasterRejectedError(err?.shortMessage || err?.message || "pm_getPaymasterStubData failed", err);
+            }
+        },
+        getPaymasterData: async (parameters) => {
+            try {
+                return await client.getPaymasterData({
+                    ...parameters,
+                    context: parameters.context ?? paymaster.context,
+                });
+            } catch (err: any) {
+                throw new PaymasterRejectedError(err?.shortMessage || err?.message || "pm_getPaymasterData failed", err);
+            }
+        },
+    };
+}
@@ -0,0 +1,277 @@
+import {
+    domainSeparator,
+    erc20Abi,
+    getAddress,
+    maxUint160,
+    sliceHex,
+    toFunctionSelector,
+    zeroAddress,
+    type PublicClient,
+} from "viem";
+import { KiroroError } from "./errors";
+import type {
+    Permit2Batch,
+    Permit2Details,
+    Permit2Options,
+    Permit2Single,
+    TypedDataDefinition,
+} from "./types";
+
+// Canonical Permit2 deployment (same address on every chain)
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as const;
+
+// Permit2 defaults, in seconds
+const DEFAULT_PERMIT2_EXPIRATION = 30 * 24 * 60 * 60;
+const DEFAULT_PERMIT2_SIG_DEADLINE = 30 * 60;
+
+// EIP-2612 permit taking a bytes signature, checked with ERC-1271 for contract owners (e.g. USDC v2.2)
+const BYTES_PERMIT_SELECTOR = toFunctionSelector("permit(address,address,uint256,uint256,bytes)").slice(2);
+
+// Implementation slots of upgradeable tokens: EIP-1967, and the older ZeppelinOS proxy USDC uses
+const IMPLEMENTATION_SLOTS = [
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc",
+    "0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3",
+] as const;
+
+const erc2612Abi = [
+    ...erc20Abi,
+    { type: "function", name: "nonces", stateMutability: "view", inputs: [{ name: "owner", type: "address" }], outputs: [{ type: "uint256" }] },
+    { type: "function", name: "DOMAIN_SEPARATOR", stateMutability: "view", inputs: [], outputs: [{ type: "bytes32" }] },
+    { type: "function", name: "version", stateMutability: "view", inputs: [], outputs: [{ type: "string" }] },
+    // EIP-5267
+    {
+        type: "function",
+        name: "eip712Domain",
+        stateMutability: "view",
+        inputs: [],
+        outputs: [
+            { name: "fields", type: "bytes1" },
+            { name: "name", type: "string" },
+            { name: "version", type: "string" },
+            { name: "chainId", type: "uint256" },
+            { name: "verifyingContract", type: "address" },
+            { name: "salt", type: "bytes32" },
+            { name: "extensions", type: "uint256[]" },
+        ],
+    },
+] as const;
+
+const permit2Abi = [
+    {
+        type: "function",
+        name: "allowance",
+        stateMutability: "view",
+        inputs: [
+            { name: "owner", type: "address" },
+            { name: "token", type: "address" },
+            { name: "spender", type: "address" },
+        ],
+        outputs: [
+            { name: "amount", type: "uint160" },
+            { name: "expiration", type: "uint48" },
+            { name: "nonce", type: "uint48" },
+        ],
+    },
+] as const;
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+const PERMIT2_DETAILS_TYPE = [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+];
+
+// EIP-5267 `fields` bits
+const DOMAIN_FIELD_NAME = 0x01;
+const DOMAIN_FIELD_VERSION = 0x02;
+const DOMAIN_FIELD_CHAIN_ID = 0x04;
+const DOMAIN_FIELD_VERIFYING_CONTRACT = 0x08;
+const DOMAIN_FIELD_SALT = 0x10;
+
+function settledValue<T>(result: PromiseSettledResult<T>): T | undefined {
+    return result.status === "fulfilled" ? result.value : undefined;
+}
+
+/**
+ * Whether the token's code, or its proxy implementation's, dispatches the bytes-signature `permit`
+ */
+async function hasBytesPermit(publicClient: PublicClient, token: `0x${string}`): Promise<boolean> {
+    const code = await publicClient.getCode({ address: token });
+    if (!code) return false;
+    if (code.includes(BYTES_PERMIT_SELECTOR)) return true;
+
+    for (const slot of IMPLEMENTATION_SLOTS) {
+        const value = await publicClient.getStorageAt({ address: token, slot });
+        if (!value || BigInt(value) === 0n) continue;
+        const implementation = await publicClient.getCode({ address: getAddress(sliceHex(value, 12)) });
+        return !!implementation?.includes(BYTES_PERMIT_SELECTOR);
+    }
+    return false;
+}
+
+/**
+ * Whether a Kiroro wallet can sign EIP-2612 permits for a token.
+ *
+ * Kiroro wallets are smart wallets, so the token must check signatures with ERC-1271 through
+ * `permit(address,address,uint256,uint256,bytes)` (e.g. USDC v2.2); tokens with only the
+ * `(v, r, s)` permit report false. The wallet must also be deployed for the token to check its signature.
+ */
+export async function supportsPermit(publicClient: PublicClient, token: `0x${string}`): Promise<boolean> {
+    const [nonce, separator, bytesPermit] = await Promise.allSettled([
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "nonces", args: [zeroAddress] }),
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "DOMAIN_SEPARATOR" }),
+        hasBytesPermit(publicClient, token),
+    ]);
+    return nonce.status === "fulfilled" && separator.status === "fulfilled" && settledValue(bytesPermit) === true;
+}
+
+/**
+ * EIP-712 domain of a permit token, from EIP-5267 `eip712Domain()` when available,
+ * otherwise from `name()` / `version()`. Checked against the token's `DOMAIN_SEPARATOR`.
+ */
+async function getPermitDomain(publicClient: PublicClient, token: `0x${string}`): Promise<TypedDataDefinition["domain"]> {
+    const chainId = publicClient.chain?.id ?? await publicClient.getChainId();
+    const [eip712Domain, name, version, separator] = await Promise.allSettled([
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "eip712Domain" }),
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "name" }),
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "version" }),
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "DOMAIN_SEPARATOR" }),
+    ]);
+
+    const expected = settledValue(separator);
+    if (!expected) {
+        throw new KiroroError("INVALID_REQUEST", `Token ${token} does not support EIP-2612 permits.`);
+    }
+
+    const candidates: TypedDataDefinition["domain"][] = [];
+    const reported = settledValue(eip712Domain);
+    if (reported) {
+        const [fields, domainName, domainVersion, domainChainId, verifyingContract, salt] = reported;
+        const bits = parseInt(fields, 16);
+        candidates.push({
+            ...(bits & DOMAIN_FIELD_NAME ? { name: domainName } : {}),
+            ...(bits & DOMAIN_FIELD_VERSION ? { version: domainVersion } : {}),
+            ...(bits & DOMAIN_FIELD_CHAIN_ID ? { chainId: Number(domainChainId) } : {}),
+            ...(bits & DOMAIN_FIELD_VERIFYING_CONTRACT ? { verifyingContract } : {}),
+            ...(bits & DOMAIN_FIELD_SALT ? { salt } : {}),
+        });
+    }
+    const tokenName = settledValue(name);
+    if (tokenName !== undefined) {
+        // Most tokens without version() use "1"
+        const versions = [...new Set([settledValue(version) ?? "1", "1", "2"])];
+        versions.forEach((v) => candidates.push({ name: tokenName, version: v, chainId, verifyingContract: token }));
+    }
+
+    const domain = candidates.find((candidate) => domainSeparator({ domain: candidate }) === expected);
+    if (!domain) {
+        throw new KiroroError("INVALID_REQUEST", `Could not determine the permit domain of token ${token}.`);
+    }
+    return domain;
+}
+
+/**
+ * EIP-2612 `Permit` typed data for a token, with the owner's current nonce
+ */
+export async function getPermitTypedData(
+    publicClient: PublicClient,
+    { token, owner, spender, value, deadline }: {
+        token: `0x${string}`;
+        owner: `0x${string}`;
+        spender: `0x${string}`;
+        value: bigint;
+        deadline: bigint;
+    }
+): Promise<{ typedData: TypedDataDefinition; nonce: bigint }> {
+    const [domain, nonce] = await Promise.all([
+        getPermitDomain(publicClient, token),
+        publicClient.readContract({ address: token, abi: erc2612Abi, functionName: "nonces", args: [owner] }),
+    ]);
+
+    return {
+        typedData: {
+            domain,
+            types: PERMIT_TYPES,
+            primaryType: "Permit",
+            message: { owner, spender, value, nonce, deadline },
+        },
+        nonce,
+    };
+}
+
+/**
+ * Builds Permit2 `PermitDetails` for each token, reading the current Permit2 nonces
+ */
+export async function getPermit2Details(
+    publicClient: PublicClient,
+    owner: `0x${string}`,
+    spender: `0x${string}`,
+    tokens: readonly { token: `0x${string}`; amount: bigint }[],
+    { expiration }: Pick<Permit2Options, "expiration"> = {}
+): Promise<Permit2Details[]> {
+    const tooLarge = tokens.find(({ amount }) => amount < 0n || amount > maxUint160);
+    if (tooLarge) {
+        throw new KiroroError("INVALID_REQUEST", `Permit2 amount for ${tooLarge.token} must fit in a uint160.`);
+    }
+
+    const allowances = await Promise.all(tokens.map(({ token }) =>
+        publicClient.readContract({ address: PERMIT2_ADDRESS, abi: permit2Abi, functionName: "allowance", args: [owner, token, spender] })
+    ));
+    const expiresAt = expiration ?? Math.floor(Date.now() / 1000) + DEFAULT_PERMIT2_EXPIRATION;
+
+    return tokens.map(({ token, amount }, i) => ({ token, amount, expiration: expiresAt, nonce: allowances[i][2] }));
+}
+
+/**
+ * Default Permit2 signature deadline: 30 minutes from now
+ */
+export function defaultPermit2SigDeadline(): bigint {
+    return BigInt(Math.floor(Date.now() / 1000) + DEFAULT_PERMIT2_SIG_DEADLINE);
+}
+
+/**
+ * Permit2 `PermitSingle` / `PermitBatch` typed data
+ */
+export function getPermit2TypedData(chainId: number, permit: Permit2Single | Permit2Batch): TypedDataDefinition {
+    const domain = { name: "Permit2", chainId, verifyingContract: PERMIT2_ADDRESS };
+
+    if (Array.isArray(permit.details)) {
+        return {
+            domain,
+            types: {
+                PermitBatch: [
+                    { name: "details", type: "PermitDetails[]" },
+                    { name: "spender", type: "address" },
+                    { name: "sigDeadline", type: "uint256" },
+                ],
+                PermitDetails: PERMIT2_DETAILS_TYPE,
+            },
+            primaryType: "PermitBatch",
+            message: { ...permit },
+        };
+    }
+
+    return {
+        domain,
+        types: {
+            PermitSingle: [
+                { name: "details", type: "PermitDetails" },
+                { name: "spender", type: "address" },
+                { name: "sigDeadline", type: "uint256" },
+            ],
+            PermitDetails: PERMIT2_DETAILS_TYPE,
+        },
+        primaryType: "PermitSingle",
+        message: { ...permit },
+    };
+}
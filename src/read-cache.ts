@@ -0,0 +1,214 @@
+"use client";
+
+import type { Hash, PublicClient, TransactionReceipt } from "viem";
+
+// How long a read result is shared before it is read again (ms)
+export const DEFAULT_READ_CACHE_TIME = 10 * 1000;
+// How long to wait for the receipt of a sent transaction before giving up on invalidation
+const RECEIPT_TIMEOUT = 2 * 60 * 1000;
+// Transactions remembered so each one only invalidates once
+const MAX_TRACKED_TRANSACTIONS = 100;
+
+export interface ReadQueryKey {
+    chainId: number;
+    address: `0x${string}`;
+    functionName: string;
+    args?: readonly unknown[];
+    blockNumber?: bigint;
+}
+
+type ReadQueryListener = (event: "updated" | "invalidated") => void;
+
+interface ReadQuery {
+    chainId: number;
+    /** Lowercase contract address */
+    address: string;
+    data?: unknown;
+    /** 0 until the first result, and after invalidation */
+    updatedAt: number;
+    promise?: Promise<unknown>;
+    listeners: Set<ReadQueryListener>;
+}
+
+// Shared by every useKiroroRead in the app
+const queries = new Map<string, ReadQuery>();
+
+/**
+ * Stable cache key for a contract read (bigint-safe)
+ */
+export function getReadQueryKey({ chainId, address, functionName, args, blockNumber }: ReadQueryKey): string {
+    return JSON.stringify(
+        [chainId, address.toLowerCase(), functionName, args ?? [], blockNumber],
+        (_, value) => (typeof value === "bigint" ? `${value}n` : value)
+    );
+}
+
+function getQuery(key: string, chainId: number, address: string): ReadQuery {
+    let query = queries.get(key);
+    if (!query) {
+        query = { chainId, address: address.toLowerCase(), updatedAt: 0, listeners: new Set() };
+        queries.set(key, query);
+    }
+    return query;
+}
+
+/**
+ * Last result of a read, if it has one
+ */
+export function peekRead<T>(key: ReadQueryKey): T | undefined {
+    return queries.get(getReadQueryKey(key))?.data as T | undefined;
+}
+
+/**
+ * Read through the cache: fresh results are reused and concurrent reads of the same key share one request
+ */
+export function fetchRead<T>(
+    key: ReadQueryKey,
+    read: () => Promise<T>,
+    { cacheTime = DEFAULT_READ_CACHE_TIME, fresh = false }: { cacheTime?: number; fresh?: boolean } = {}
+): Promise<T> {
+    const query = getQuery(getReadQueryKey(key), key.chainId, key.address);
+
+    if (!fresh && query.updatedAt > 0 && Date.now() - query.updatedAt < cacheTime) {
+        return Promise.resolve(query.data as T);
+    }
+    if (query.promise) return query.promise as Promise<T>;
+
+    const promise = read()
+        .then((data) => {
+            query.data = data;
+            query.updatedAt = Date.now();
+            query.listeners.forEach((listener) => listener("updated"));
+            return data;
+        })
+        .finally(() => {
+            query.promise = undefined;
+        });
+    query.promise = promise;
+    return promise;
+}
+
+/**
+ * Listen for new results and invalidation of a read
+ */
+export function subscribeRead(key: ReadQueryKey, listener: ReadQueryListener): () => void {
+    const query = getQuery(getReadQueryKey(key), key.chainId, key.address);
+    query.listeners.add(listener);
+    return () => {
+        query.listeners.delete(listener);
+    };
+}
+
+/**
+ * Mark cached reads as stale; mounted useKiroroRead hooks read them again.
+ * Without a filter, every read is invalidated.
+ *
+ * @example
+ * ```ts
+ * // After a transaction sent outside Kiroro
+ * invalidateKiroroReads({ chainId: base.id, address: tokenAddress });
+ * ```
+ */
+export function invalidateKiroroReads(filter: { chainId?: number; address?: `0x${string}` | readonly `0x${string}`[] } = {}) {
+    const addresses = filter.address === undefined
+        ? null
+        : new Set((typeof filter.address === "string" ? [filter.address] : filter.address).map((a) => a.toLowerCase()));
+
+    queries.forEach((query) => {
+        if (filter.chainId !== undefined && query.chainId !== filter.chainId) return;
+        if (addresses && !addresses.has(query.address)) return;
+        query.updatedAt = 0;
+        query.listeners.forEach((listener) => listener("invalidated"));
+    });
+}
+
+/**
+ * Drop all cached reads
+ */
+export function clearKiroroReadCache() {
+    queries.clear();
+}
+
+// ============================================
+// Invalidation by transaction
+// ============================================
+
+const trackedTransactions = new Set<Hash>();
+
+function track(hash: Hash): boolean {
+    if (trackedTransactions.has(hash)) return false;
+    trackedTransactions.add(hash);
+    if (trackedTransactions.size > MAX_TRACKED_TRANSACTIONS) {
+        trackedTransactions.delete(trackedTransactions.values().next().value as Hash);
+    }
+    return true;
+}
+
+/**
+ * Contracts a transaction called or that emitted events in it.
+ * For user operations `to` is the EntryPoint, so the logs carry the actual contracts.
+ */
+function touchedAddresses(receipt: TransactionReceipt): `0x${string}`[] {
+    return [receipt.to, ...receipt.logs.map((log) => log.address)].filter(Boolean) as `0x${string}`[];
+}
+
+/**
+ * Invalidate the reads of every contract a confirmed transaction touched
+ */
+export function invalidateReadsForReceipt(receipt: TransactionReceipt) {
+    if (!track(receipt.transactionHash)) return;
+    invalidateKiroroReads({ address: touchedAddresses(receipt) });
+}
+
+/**
+ * Wait for a sent transaction and invalidate the reads of the contracts it touched
+ * (the called contracts `to`, plus every contract that emitted events)
+ */
+export function invalidateReadsOnConfirmation(hash: Hash, publicClient: PublicClient, to: readonly `0x${string}`[] = []) {
+    if (!track(hash)) return;
+
+    publicClient.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT })
+        .then((receipt) => invalidateKiroroReads({ address: [...to, ...touchedAddresses(receipt)] }))
+        .catch(() => {
+            // Receipt not found (e.g. sent on another chain): fall back to the called contracts
+            if (to.length > 0) invalidateKiroroReads({ address: to });
+        });
+}
+
+// ============================================
+// Block watching
+// ============================================
+
+interface BlockWatcher {
+    listeners: Set<(blockNumber: bigint) => void>;
+    unwatch: () => void;
+}
+
+// One block subscription per chain, shared by every watching read
+const blockWatchers = new Map<number, BlockWatcher>();
+
+/**
+ * Call `listener` on every new block of a chain
+ */
+export function watchBlocks(chainId: number, publicClient: PublicClient, listener: (blockNumber: bigint) => void): () => void {
+    let watcher = blockWatchers.get(chainId);
+    if (!watcher) {
+        const listeners = new Set<(blockNumber: bigint) => void>();
+        const unwatch = publicClient.watchBlockNumber({
+            onBlockNumber: (blockNumber) => listeners.forEach((l) => l(blockNumber)),
+            onError: (err) => console.warn("[Kiroro] Block watcher failed:", err),
+        });
+        watcher = { listeners, unwatch };
+        blockWatchers.set(chainId, watcher);
+    }
+
+    const current = watcher;
+    current.listeners.add(listener);
+    return () => {
+        current.listeners.delete(listener);
+        if (current.listeners.size === 0 && blockWatchers.get(chainId) === current) {
+            current.unwatch();
+            blockWatchers.delete(chainId);
+        }
+    };
+}
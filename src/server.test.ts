@@ -0,0 +1,218 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { KiroroTokenError, createKiroroVerifier, getBearerToken, type KiroroServerOptions } from "./server";
+
+const ISSUER = "https://issuer.test";
+const CLIENT_ID = "client-1";
+
+type MockKey = { kid: string; privateKey: CryptoKey; jwk: JsonWebKey };
+
+let primary: MockKey;
+let secondary: MockKey;
+
+async function generateKey(kid: string): Promise<MockKey> {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+    return { kid, privateKey, jwk: { ...(await crypto.subtle.exportKey("jwk", publicKey)), kid, alg: "ES256" } as JsonWebKey };
+}
+
+function base64Url(value: string | Uint8Array): string {
+    const bytes = typeof value === "string" ? new TextEncoder().encode(value) : value;
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function signJwt(key: MockKey, claims: Record<string, unknown>, header: Record<string, unknown> = { kid: key.kid }): Promise<string> {
+    const signingInput = `${base64Url(JSON.stringify({ alg: "ES256", typ: "JWT", ...header }))}.${base64Url(JSON.stringify(claims))}`;
+    const signature = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, key.privateKey, new TextEncoder().encode(signingInput));
+    return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        iss: ISSUER,
+        aud: CLIENT_ID,
+        sub: "42",
+        exp: Math.floor(Date.now() / 1000) + 600,
+        user: { id: "42", username: "kiroro", threadsId: "t-42", picture: "https://img.test/42.png" },
+        ...overrides,
+    };
+}
+
+/**
+ * Mock issuer: serves the JWKS and the introspection endpoint, counting requests
+ */
+function mockIssuer(keys: () => JsonWebKey[], introspection: Record<string, unknown> = { active: false }) {
+    const calls: string[] = [];
+    const fetchFn = (async (input: RequestInfo | URL) => {
+        const url = String(input);
+        calls.push(url);
+        if (url === `${ISSUER}/.well-known/jwks.json`) return Response.json({ keys: keys() });
+        if (url === `${ISSUER}/api/threads/introspect`) return Response.json(introspection);
+        return new Response("Not found", { status: 404 });
+    }) as typeof fetch;
+    return { calls, fetch: fetchFn };
+}
+
+function verifier(issuer: ReturnType<typeof mockIssuer>, options: KiroroServerOptions = {}) {
+    return createKiroroVerifier({ backendUrl: ISSUER, kiroroClientId: CLIENT_ID, fetch: issuer.fetch, ...options });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<KiroroTokenError> {
+    const error = await promise.then(() => null, (err) => err);
+    expect(error).toBeInstanceOf(KiroroTokenError);
+    return error;
+}
+
+beforeAll(async () => {
+    primary = await generateKey("key-1");
+    secondary = await generateKey("key-2");
+});
+
+describe("verifyJwt", () => {
+    it("returns the session of a valid token", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const claims = validClaims();
+        const token = await signJwt(primary, claims);
+
+        const session = await verifier(issuer).verifyToken(token);
+
+        expect(session.user).toMatchObject({ id: "42", username: "kiroro", threadsId: "t-42" });
+        expect(session.token).toBe(token);
+        expect(session.expiresAt).toBe((claims.exp as number) * 1000);
+    });
+
+    it("caches the JWKS across tokens", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const verify = verifier(issuer);
+
+        await verify.verifyToken(await signJwt(primary, validClaims()));
+        await verify.verifyToken(await signJwt(primary, validClaims({ sub: "43" })));
+
+        expect(issuer.calls).toHaveLength(1);
+    });
+
+    it("refetches the JWKS for a rotated key", async () => {
+        let keys = [primary.jwk];
+        const issuer = mockIssuer(() => keys);
+        const verify = verifier(issuer);
+        await verify.verifyToken(await signJwt(primary, validClaims()));
+
+        keys = [primary.jwk, secondary.jwk];
+        // JWKS refetches are rate limited: let the interval pass
+        vi.spyOn(Date, "now").mockReturnValue(Date.now() + 60_000);
+        try {
+            const session = await verify.verifyToken(await signJwt(secondary, validClaims({ exp: Math.floor(Date.now() / 1000) + 600 })));
+            expect(session.user.id).toBe("42");
+        } finally {
+            vi.restoreAllMocks();
+        }
+        expect(issuer.calls).toHaveLength(2);
+    });
+
+    it("rejects a token signed by another key", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const token = await signJwt(secondary, validClaims(), { kid: primary.kid });
+
+        const error = await rejection(verifier(issuer).verifyToken(token));
+        expect(error.code).toBe("SIGNATURE_INVALID");
+        expect(error.status).toBe(401);
+    });
+
+    it("rejects a tampered payload", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const [header, , signature] = (await signJwt(primary, validClaims())).split(".");
+        const forged = `${header}.${base64Url(JSON.stringify(validClaims({ sub: "1", user: { id: "1", username: "admin" } })))}.${signature}`;
+
+        expect((await rejection(verifier(issuer).verifyToken(forged))).code).toBe("SIGNATURE_INVALID");
+    });
+
+    it("answers 401, not 500, for a signature that is not base64url", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const [header, payload] = (await signJwt(primary, validClaims())).split(".");
+
+        const error = await rejection(verifier(issuer).verifyToken(`${header}.${payload}.%%%`));
+        expect(error.code).toBe("SIGNATURE_INVALID");
+        expect(error.status).toBe(401);
+    });
+
+    it("rejects a kid-less token when the JWKS holds several keys", async () => {
+        const issuer = mockIssuer(() => [primary.jwk, secondary.jwk]);
+        const token = await signJwt(primary, validClaims(), {});
+
+        expect((await rejection(verifier(issuer).verifyToken(token))).code).toBe("SIGNATURE_INVALID");
+    });
+
+    it("accepts a kid-less token when the JWKS holds a single key", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const token = await signJwt(primary, validClaims(), {});
+
+        expect((await verifier(issuer).verifyToken(token)).user.id).toBe("42");
+    });
+
+    it("rejects expired tokens, beyond the clock tolerance", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const token = await signJwt(primary, validClaims({ exp: Math.floor(Date.now() / 1000) - 60 }));
+
+        expect((await rejection(verifier(issuer).verifyToken(token))).code).toBe("TOKEN_EXPIRED");
+    });
+
+    it("rejects tokens without an expiry", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const token = await signJwt(primary, validClaims({ exp: undefined }));
+
+        expect((await rejection(verifier(issuer).verifyToken(token))).code).toBe("CLAIM_INVALID");
+    });
+
+    it("checks the issuer and the audience", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const verify = verifier(issuer);
+
+        const otherIssuer = await signJwt(primary, validClaims({ iss: "https://evil.test" }));
+        const otherClient = await signJwt(primary, validClaims({ aud: ["client-2"] }));
+
+        expect((await rejection(verify.verifyToken(otherIssuer))).code).toBe("CLAIM_INVALID");
+        expect((await rejection(verify.verifyToken(otherClient))).code).toBe("CLAIM_INVALID");
+    });
+
+    it("rejects unsupported algorithms", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const token = await signJwt(primary, validClaims(), { kid: primary.kid, alg: "none" });
+
+        expect((await rejection(verifier(issuer).verifyToken(token))).code).toBe("TOKEN_MALFORMED");
+    });
+
+    it("answers 503 when the JWKS cannot be loaded", async () => {
+        const issuer = mockIssuer(() => [primary.jwk]);
+        const verify = verifier(issuer, { jwksUrl: `${ISSUER}/missing.json` });
+
+        const error = await rejection(verify.verifyToken(await signJwt(primary, validClaims())));
+        expect(error.status).toBe(503);
+    });
+});
+
+describe("introspection", () => {
+    it("introspects opaque tokens", async () => {
+        const issuer = mockIssuer(() => [], {
+            active: true,
+            expiresAt: new Date(Date.now() + 60_000).toISOString(),
+            user: { id: "7", username: "threads_user" },
+        });
+
+        const session = await verifier(issuer).verifyToken("opaque-token");
+
+        expect(session.user).toMatchObject({ id: "7", username: "threads_user" });
+        expect(issuer.calls).toEqual([`${ISSUER}/api/threads/introspect`]);
+    });
+
+    it("rejects inactive tokens", async () => {
+        const issuer = mockIssuer(() => [], { active: false });
+
+        expect((await rejection(verifier(issuer).verifyToken("opaque-token"))).code).toBe("TOKEN_EXPIRED");
+    });
+});
+
+describe("getBearerToken", () => {
+    it("reads Fetch and Node headers", () => {
+        expect(getBearerToken(new Headers({ Authorization: "Bearer abc" }))).toBe("abc");
+        expect(getBearerToken({ authorization: "Bearer def" })).toBe("def");
+        expect(getBearerToken({})).toBeNull();
+    });
+});
@@ -0,0 +1,472 @@
+/**
+ * Kiroro Server Helpers
+ *
+ * Verifies the access tokens that `getAccessToken()` hands the browser, so API routes
+ * can trust the user. Import from "@kirorolabs/sdk/server" (Node 18+, Edge runtimes).
+ *
+ * @example
+ * ```ts
+ * // app/api/me/route.ts (Next.js)
+ * import { withKiroroAuth } from "@kirorolabs/sdk/server";
+ *
+ * export const GET = withKiroroAuth(async (req, { session }) => {
+ *   return Response.json({ user: session.user });
+ * }, { kiroroClientId: process.env.KIRORO_CLIENT_ID });
+ * ```
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { KiroroError } from "./errors";
+import type { KiroroUser } from "./types";
+
+const DEFAULT_BACKEND = "https://app.kiroro.xyz";
+// Clock skew tolerated for exp / nbf (seconds)
+const DEFAULT_CLOCK_TOLERANCE = 30;
+// Minimum time between JWKS refetches for unknown key IDs
+const JWKS_REFETCH_INTERVAL = 30 * 1000;
+
+export interface KiroroServerOptions {
+    /** Kiroro backend (default: https://app.kiroro.xyz) */
+    backendUrl?: string;
+    /** Expected audience of the token (your Kiroro client ID) */
+    kiroroClientId?: string;
+    /** Expected token issuer (default: backendUrl) */
+    issuer?: string;
+    /** JWKS used to verify JWT signatures (default: `${backendUrl}/.well-known/jwks.json`) */
+    jwksUrl?: string;
+    /**
+     * "jwt" verifies signatures locally against the JWKS, "introspection" asks
+     * `${backendUrl}/api/threads/introspect`. "auto" (default) verifies JWTs locally
+     * and introspects opaque tokens.
+     */
+    verification?: "auto" | "jwt" | "introspection";
+    /** Allowed clock skew in seconds (default: 30) */
+    clockTolerance?: number;
+    /** Custom fetch (e.g. to reach a local mock issuer) */
+    fetch?: typeof fetch;
+}
+
+export interface KiroroSession {
+    user: KiroroUser;
+    /** The verified access token */
+    token: string;
+    /** Token expiry (epoch ms) */
+    expiresAt: number;
+    /** Raw JWT claims / introspection response */
+    claims: Record<string, unknown>;
+}
+
+export type KiroroTokenErrorCode =
+    | "TOKEN_MISSING"
+    | "TOKEN_MALFORMED"
+    | "TOKEN_EXPIRED"
+    | "SIGNATURE_INVALID"
+    | "CLAIM_INVALID"
+    | "INTROSPECTION_FAILED";
+
+/**
+ * Thrown when a request carries no valid Kiroro access token
+ */
+export class KiroroTokenError extends KiroroError<KiroroTokenErrorCode> {
+    /** HTTP status to answer with */
+    status: number;
+
+    constructor(code: KiroroTokenErrorCode, message: string, status = 401) {
+        super(code, message);
+        this.name = "KiroroTokenError";
+        this.status = status;
+    }
+}
+
+export interface KiroroVerifier {
+    /** Verify an access token and return its session */
+    verifyToken: (token: string) => Promise<KiroroSession>;
+    /** Verify the bearer token of a request */
+    verifyRequest: (request: { headers: Headers | IncomingMessage["headers"] }) => Promise<KiroroSession>;
+}
+
+// ============================================
+// Token verification
+// ============================================
+
+type JwtAlgorithm = "RS256" | "ES256";
+
+const ALGORITHMS: Record<JwtAlgorithm, { import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | EcdsaParams }> = {
+    RS256: {
+        import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+        verify: "RSASSA-PKCS1-v1_5",
+    },
+    ES256: {
+        import: { name: "ECDSA", namedCurve: "P-256" },
+        verify: { name: "ECDSA", hash: "SHA-256" },
+    },
+};
+
+interface Jwk extends JsonWebKey {
+    kid?: string;
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+    try {
+        return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+    } catch {
+        throw new KiroroTokenError("TOKEN_MALFORMED", "Access token is not a valid JWT.");
+    }
+}
+
+/**
+ * Web Crypto rejects malformed keys and signatures with a DOMException:
+ * those make the token invalid (401) rather than the server faulty
+ */
+function toSignatureError(err: unknown, message: string): unknown {
+    return err instanceof DOMException ? new KiroroTokenError("SIGNATURE_INVALID", message) : err;
+}
+
+function isJwt(token: string): boolean {
+    return token.split(".").length === 3;
+}
+
+/**
+ * Map token claims (or an introspection response) to a KiroroUser
+ */
+function toKiroroUser(claims: Record<string, any>): KiroroUser {
+    const user = claims.user ?? claims;
+    const id = user.id ?? claims.sub;
+    if (!id || !user.username) {
+        throw new KiroroTokenError("CLAIM_INVALID", "Access token does not identify a Kiroro user.");
+    }
+    return {
+        id: String(id),
+        threadsId: user.threadsId ?? user.threads_id ?? String(id),
+        username: user.username,
+        picture: user.picture ?? "",
+        walletAddress: user.walletAddress ?? user.wallet_address,
+        isVerified: user.isVerified ?? user.is_verified,
+    };
+}
+
+/**
+ * Epoch ms from epoch seconds, epoch ms or an ISO string
+ */
+function toEpochMs(value: unknown): number | null {
+    if (typeof value === "number") return value < 1e12 ? value * 1000 : value;
+    if (typeof value === "string") {
+        const parsed = Date.parse(value);
+        return Number.isNaN(parsed) ? null : parsed;
+    }
+    return null;
+}
+
+/**
+ * Creates a verifier for Kiroro access tokens. Reuse one instance: JWKS keys are cached.
+ */
+export function createKiroroVerifier(options: KiroroServerOptions = {}): KiroroVerifier {
+    const backendUrl = (options.backendUrl || DEFAULT_BACKEND).replace(/\/$/, "");
+    const issuer = options.issuer ?? backendUrl;
+    const jwksUrl = options.jwksUrl ?? `${backendUrl}/.well-known/jwks.json`;
+    const verification = options.verification ?? "auto";
+    const clockTolerance = (options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE) * 1000;
+    const fetchFn = options.fetch ?? fetch;
+
+    let jwks: Promise<Jwk[]> | null = null;
+    let jwksFetchedAt = 0;
+    const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+    const loadJwks = (force = false): Promise<Jwk[]> => {
+        if (!jwks || (force && Date.now() - jwksFetchedAt > JWKS_REFETCH_INTERVAL)) {
+            jwksFetchedAt = Date.now();
+            jwks = fetchFn(jwksUrl)
+                .then(async (response) => {
+                    if (!response.ok) throw new Error(`JWKS request failed (${response.status})`);
+                    const data = await response.json();
+                    return (data.keys ?? []) as Jwk[];
+                })
+                .catch((err) => {
+                    jwks = null;
+                    throw new KiroroTokenError("SIGNATURE_INVALID", `Could not load signing keys: ${err.message}`, 503);
+                });
+        }
+        return jwks;
+    };
+
+    const getKey = async (alg: JwtAlgorithm, kid?: string): Promise<CryptoKey> => {
+        const find = (keys: Jwk[]) => {
+            const candidates = keys.filter((key) => !key.alg || key.alg === alg);
+            if (kid) return candidates.find((key) => key.kid === kid);
+            // Without a kid the key is only known when the JWKS holds a single one
+            if (candidates.length > 1) {
+                throw new KiroroTokenError("SIGNATURE_INVALID", "Access token has no kid and the JWKS holds several signing keys.");
+            }
+            return candidates[0];
+        };
+
+        // Keys may have been rotated since the JWKS was cached
+        const jwk = find(await loadJwks()) ?? find(await loadJwks(true));
+        if (!jwk) {
+            throw new KiroroTokenError("SIGNATURE_INVALID", `No signing key found for kid "${kid ?? ""}".`);
+        }
+
+        const cacheKey = `${alg}:${jwk.kid ?? jwk.n ?? jwk.x}`;
+        if (!importedKeys.has(cacheKey)) {
+            const imported = crypto.subtle.importKey("jwk", jwk, ALGORITHMS[alg].import, false, ["verify"])
+                .catch((err) => {
+                    importedKeys.delete(cacheKey);
+                    throw toSignatureError(err, `Signing key "${jwk.kid ?? ""}" does not match the ${alg} algorithm.`);
+                });
+            importedKeys.set(cacheKey, imported);
+        }
+        return importedKeys.get(cacheKey)!;
+    };
+
+    const verifyJwt = async (token: string): Promise<KiroroSession> => {
+        const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+        const header = decodeSegment(headerSegment);
+        const claims = decodeSegment(payloadSegment);
+
+        const alg = header.alg as JwtAlgorithm;
+        if (!ALGORITHMS[alg]) {
+            throw new KiroroTokenError("TOKEN_MALFORMED", `Unsupported JWT algorithm "${header.alg}".`);
+        }
+
+        const key = await getKey(alg, header.kid);
+
+        let valid: boolean;
+        try {
+            valid = await crypto.subtle.verify(
+                ALGORITHMS[alg].verify,
+                key,
+                base64UrlDecode(signatureSegment),
+                new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+            );
+        } catch (err) {
+            // Also thrown by atob for a signature that is not base64url
+            throw toSignatureError(err, "Access token signature is invalid.");
+        }
+        if (!valid) {
+            throw new KiroroTokenError("SIGNATURE_INVALID", "Access token signature is invalid.");
+        }
+
+        const now = Date.now();
+        if (typeof claims.exp !== "number") {
+            throw new KiroroTokenError("CLAIM_INVALID", "Access token has no expiry.");
+        }
+        if (claims.exp * 1000 + clockTolerance <= now) {
+            throw new KiroroTokenError("TOKEN_EXPIRED", "Access token has expired.");
+        }
+        if (typeof claims.nbf === "number" && claims.nbf * 1000 - clockTolerance > now) {
+            throw new KiroroTokenError("CLAIM_INVALID", "Access token is not valid yet.");
+        }
+        if (claims.iss !== issuer) {
+            throw new KiroroTokenError("CLAIM_INVALID", `Access token was issued by "${claims.iss}", expected "${issuer}".`);
+        }
+        if (options.kiroroClientId) {
+            const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+            if (!audience.includes(options.kiroroClientId)) {
+                throw new KiroroTokenError("CLAIM_INVALID", "Access token was issued for another client.");
+            }
+        }
+
+        return { user: toKiroroUser(claims), token, expiresAt: claims.exp * 1000, claims };
+    };
+
+    const introspect = async (token: string): Promise<KiroroSession> => {
+        let data: Record<string, any>;
+        try {
+            const response = await fetchFn(`${backendUrl}/api/threads/introspect`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ token, clientId: options.kiroroClientId }),
+            });
+            data = await response.json();
+            if (!response.ok && response.status !== 401) {
+                throw new Error(data.error || `Introspection failed (${response.status})`);
+            }
+        } catch (err: any) {
+            throw new KiroroTokenError("INTROSPECTION_FAILED", err.message || "Introspection failed", 503);
+        }
+
+        if (!data.active) {
+            throw new KiroroTokenError("TOKEN_EXPIRED", data.error || "Access token is not active.");
+        }
+
+        const expiresAt = toEpochMs(data.expiresAt ?? data.exp);
+        if (expiresAt !== null && expiresAt + clockTolerance <= Date.now()) {
+            throw new KiroroTokenError("TOKEN_EXPIRED", "Access token has expired.");
+        }
+
+        return { user: toKiroroUser(data), token, expiresAt: expiresAt ?? Date.now(), claims: data };
+    };
+
+    const verifyToken = async (token: string): Promise<KiroroSession> => {
+        if (!token) {
+            throw new KiroroTokenError("TOKEN_MISSING", "Missing access token.");
+        }
+        if (verification === "introspection" || (verification === "auto" && !isJwt(token))) {
+            return introspect(token);
+        }
+        if (!isJwt(token)) {
+            throw new KiroroTokenError("TOKEN_MALFORMED", "Access token is not a valid JWT.");
+        }
+        return verifyJwt(token);
+    };
+
+    return {
+        verifyToken,
+        verifyRequest: (request) => verifyToken(getBearerToken(request.headers) ?? ""),
+    };
+}
+
+/**
+ * Reads the token from an `Authorization: Bearer <token>` header (Fetch or Node headers)
+ */
+export function getBearerToken(headers: Headers | IncomingMessage["headers"]): string | null {
+    const value = typeof (headers as Headers).get === "function"
+        ? (headers as Headers).get("authorization")
+        : (headers as IncomingMessage["headers"]).authorization;
+    const match = typeof value === "string" ? value.match(/^Bearer\s+(.+)$/i) : null;
+    return match ? match[1].trim() : null;
+}
+
+function toErrorBody(error: unknown) {
+    if (error instanceof KiroroTokenError) {
+        return { status: error.status, body: { error: error.message, code: error.code } };
+    }
+    console.error("[Kiroro] Failed to verify session:", error);
+    return { status: 500, body: { error: "Failed to verify session" } };
+}
+
+// ============================================
+// Next.js (App Router / Middleware)
+// ============================================
+
+/**
+ * Wraps a Next.js route handler so it only runs for requests with a valid Kiroro token.
+ * Other requests get a 401 JSON response.
+ */
+export function withKiroroAuth<TContext = {}>(
+    handler: (request: Request, context: TContext & { session: KiroroSession }) => Response | Promise<Response>,
+    options: KiroroServerOptions | KiroroVerifier = {}
+) {
+    const verifier = "verifyToken" in options ? options : createKiroroVerifier(options);
+
+    return async (request: Request, context?: TContext): Promise<Response> => {
+        let session: KiroroSession;
+        try {
+            session = await verifier.verifyRequest(request);
+        } catch (err) {
+            const { status, body } = toErrorBody(err);
+            return Response.json(body, { status });
+        }
+        return handler(request, { ...(context as TContext), session });
+    };
+}
+
+/**
+ * Next.js middleware that rejects requests without a valid Kiroro token.
+ * Returns undefined for verified requests, which lets them continue.
+ *
+ * @example
+ * ```ts
+ * // middleware.ts
+ * export const middleware = createKiroroMiddleware({ kiroroClientId: process.env.KIRORO_CLIENT_ID });
+ * export const config = { matcher: "/api/:path*" };
+ * ```
+ */
+export function createKiroroMiddleware(options: KiroroServerOptions | KiroroVerifier = {}) {
+    const verifier = "verifyToken" in options ? options : createKiroroVerifier(options);
+
+    return async (request: Request): Promise<Response | undefined> => {
+        try {
+            await verifier.verifyRequest(request);
+            return undefined;
+        } catch (err) {
+            const { status, body } = toErrorBody(err);
+            return Response.json(body, { status });
+        }
+    };
+}
+
+// ============================================
+// Express / Node http
+// ============================================
+
+export interface KiroroRequest extends IncomingMessage {
+    kiroro?: KiroroSession;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Express (or Connect) middleware. Verified sessions are available as `req.kiroro`;
+ * other requests get a 401 JSON response.
+ */
+export function kiroroExpress(options: KiroroServerOptions | KiroroVerifier = {}) {
+    const verifier = "verifyToken" in options ? options : createKiroroVerifier(options);
+
+    return (req: KiroroRequest, res: ServerResponse, next: (err?: unknown) => void) => {
+        verifier.verifyRequest(req).then(
+            (session) => {
+                req.kiroro = session;
+                next();
+            },
+            (err) => {
+                const { status, body } = toErrorBody(err);
+                sendJson(res, status, body);
+            }
+        );
+    };
+}
+
+/**
+ * Verifies a Node `http` request. Responds with 401 and returns null when the token is invalid.
+ *
+ * @example
+ * ```ts
+ * http.createServer(async (req, res) => {
+ *   const session = await authenticateNodeRequest(req, res, verifier);
+ *   if (!session) return;
+ *   res.end(`Hello ${session.user.username}`);
+ * });
+ * ```
+ */
+export async function authenticateNodeRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: KiroroServerOptions | KiroroVerifier = {}
+): Promise<KiroroSession | null> {
+    const verifier = "verifyToken" in options ? options : createKiroroVerifier(options);
+    try {
+        return await verifier.verifyRequest(req);
+    } catch (err) {
+        const { status, body } = toErrorBody(err);
+        sendJson(res, status, body);
+        return null;
+    }
+}
+
+// Smart-wallet-aware signature verification
+export { KiroroError, isKiroroError } from "./errors";
+export type { KiroroErrorCode } from "./errors";
+
+export { verifyKiroroMessage, verifyKiroroTypedData } from "./verify";
+export type {
+    KiroroVerifyClientOptions,
+    VerifyKiroroMessageParameters,
+    VerifyKiroroTypedDataParameters,
+} from "./verify";
+
+// SIWE wallet link verification
+export { parseKiroroSiweMessage, validateKiroroSiweMessage, verifyKiroroSiweMessage } from "./siwe";
+export type { KiroroSiweLink, ValidateKiroroSiweParameters } from "./siwe";
+
+export type { KiroroUser };
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+    HttpRequestError,
+    createPublicClient,
+    custom,
+    encodeErrorResult,
+    parseAbi,
+    type PublicClient,
+} from "viem";
+import { base } from "viem/chains";
+import { TransactionSimulationError, simulateKiroroCall } from "./simulate";
+import { KiroroError } from "./errors";
+
+const account = "0x1111111111111111111111111111111111111111";
+const token = "0x2222222222222222222222222222222222222222";
+
+const abi = parseAbi([
+    "function mint(uint256 amount)",
+    "error SoldOut(uint256 remaining)",
+]);
+
+/**
+ * Public client whose eth_call / eth_estimateGas answer with `fail`, or succeed when it returns nothing
+ */
+function mockClient(fail: () => unknown): PublicClient {
+    return createPublicClient({
+        chain: base,
+        transport: custom({
+            request: async ({ method }) => {
+                const error = fail();
+                if (error) throw error;
+                if (method === "eth_call") return "0x";
+                if (method === "eth_estimateGas") return "0x5208";
+                throw new Error(`Unexpected ${method}`);
+            },
+        }, { retryCount: 0 }),
+    }) as PublicClient;
+}
+
+const revert = (data: `0x${string}`) => () => ({ code: 3, message: "execution reverted", data });
+const outage = () => new HttpRequestError({ url: "https://rpc.test", status: 503 });
+
+describe("simulateKiroroCall", () => {
+    it("returns the result and gas of a call that succeeds", async () => {
+        const result = await simulateKiroroCall(mockClient(() => null), account, { address: token, abi, functionName: "mint", args: [1n] });
+
+        expect(result.gas).toBe(21_000n);
+    });
+
+    it("decodes a custom error revert", async () => {
+        const data = encodeErrorResult({ abi, errorName: "SoldOut", args: [0n] });
+
+        const error = await simulateKiroroCall(mockClient(revert(data)), account, { address: token, abi, functionName: "mint", args: [1n] })
+            .catch((err) => err);
+
+        expect(error).toBeInstanceOf(TransactionSimulationError);
+        expect(error.code).toBe("TRANSACTION_REVERTED");
+        expect(error.errorName).toBe("SoldOut");
+        expect(error.errorArgs).toEqual([0n]);
+    });
+
+    it("decodes the revert string of a raw transaction", async () => {
+        const data = encodeErrorResult({ abi: parseAbi(["error Error(string)"]), errorName: "Error", args: ["Sold out"] });
+
+        const error = await simulateKiroroCall(mockClient(revert(data)), account, { to: token, data: "0x1249c58b" })
+            .catch((err) => err);
+
+        expect(error).toBeInstanceOf(TransactionSimulationError);
+        expect(error.reason).toBe("Sold out");
+    });
+
+    it("reports an RPC outage as NETWORK_ERROR, not a revert", async () => {
+        const contractError = await simulateKiroroCall(mockClient(outage), account, { address: token, abi, functionName: "mint", args: [1n] })
+            .catch((err) => err);
+        const rawError = await simulateKiroroCall(mockClient(outage), account, { to: token, data: "0x" })
+            .catch((err) => err);
+
+        for (const error of [contractError, rawError]) {
+            expect(error).toBeInstanceOf(KiroroError);
+            expect(error).not.toBeInstanceOf(TransactionSimulationError);
+            expect(error.code).toBe("NETWORK_ERROR");
+        }
+    });
+
+    it("reports insufficient funds as INSUFFICIENT_FUNDS", async () => {
+        const error = await simulateKiroroCall(
+            mockClient(() => ({ code: -32000, message: "insufficient funds for gas * price + value" })),
+            account,
+            { to: token, value: 10n ** 18n }
+        ).catch((err) => err);
+
+        expect(error).not.toBeInstanceOf(TransactionSimulationError);
+        expect(error.code).toBe("INSUFFICIENT_FUNDS");
+    });
+});
@@ -0,0 +1,143 @@
+"use client";
+
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    RawContractError,
+    decodeErrorResult,
+    type Abi,
+    type Chain,
+    type EstimateContractGasParameters,
+    type PublicClient,
+    type SimulateContractParameters,
+} from "viem";
+import { KiroroError, toKiroroError } from "./errors";
+import type { SendTransactionRequest, SimulationResult, WriteContractRequest } from "./types";
+
+/**
+ * Thrown before the wallet prompt when a simulated call would revert
+ */
+export class TransactionSimulationError extends KiroroError {
+    /** Revert string (`require(..., "reason")`) or panic description */
+    reason?: string;
+    /** Custom error name, decoded with the provided ABI */
+    errorName?: string;
+    /** Custom error arguments */
+    errorArgs?: readonly unknown[];
+    /** Raw revert data */
+    data?: `0x${string}`;
+
+    constructor(message: string, details: Partial<Pick<TransactionSimulationError, "reason" | "errorName" | "errorArgs" | "data">> = {}, cause?: unknown) {
+        super("TRANSACTION_REVERTED", `Transaction would revert: ${message}`, cause);
+        this.name = "TransactionSimulationError";
+        this.reason = details.reason;
+        this.errorName = details.errorName;
+        this.errorArgs = details.errorArgs;
+        this.data = details.data;
+    }
+}
+
+/**
+ * Revert data of a failed call: from a RawContractError, or the RPC error at the root of the chain
+ * (where `call` / `estimateGas` leave it)
+ */
+function getRevertData(err: BaseError): `0x${string}` | undefined {
+    const raw = err.walk((e) => e instanceof RawContractError) as RawContractError | null;
+    const root = err.walk() as { data?: unknown } | null;
+    const data = raw?.data ?? root?.data;
+    const hex = typeof data === "object" && data !== null ? (data as { data?: unknown }).data : data;
+    return typeof hex === "string" && hex.startsWith("0x") ? hex as `0x${string}` : undefined;
+}
+
+/**
+ * Turns a viem call / simulation error into a TransactionSimulationError with the decoded revert.
+ * Failures that are not reverts (RPC outages, insufficient funds) keep their own KiroroError code.
+ */
+export function toSimulationError(err: unknown, abi?: Abi): KiroroError {
+    if (!(err instanceof BaseError)) {
+        return toKiroroError(err);
+    }
+
+    const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null;
+    if (reverted) {
+        const errorName = reverted.data?.errorName;
+        // Error(string) and Panic(uint256) are decoded into reason
+        const isBuiltin = errorName === "Error" || errorName === "Panic";
+        return new TransactionSimulationError(
+            reverted.reason ?? (errorName && !isBuiltin ? `${errorName}(${(reverted.data?.args ?? []).map(String).join(", ")})` : err.shortMessage),
+            {
+                reason: reverted.reason,
+                errorName: isBuiltin ? undefined : errorName,
+                errorArgs: isBuiltin ? undefined : reverted.data?.args,
+                data: reverted.raw,
+            },
+            err
+        );
+    }
+
+    // Raw calls: decode the revert data ourselves
+    const data = getRevertData(err);
+    if (data && data !== "0x") {
+        try {
+            const decoded = decodeErrorResult({ abi, data });
+            if (decoded.errorName === "Error") {
+                const reason = String(decoded.args?.[0]);
+                return new TransactionSimulationError(reason, { reason, data }, err);
+            }
+            return new TransactionSimulationError(
+                `${decoded.errorName}(${(decoded.args ?? []).map(String).join(", ")})`,
+                { errorName: decoded.errorName, errorArgs: decoded.args, data },
+                err
+            );
+        } catch {
+            // Unknown error selector
+        }
+        return new TransactionSimulationError(err.shortMessage, { data }, err);
+    }
+
+    return toKiroroError(err);
+}
+
+/**
+ * Simulates a contract write (or raw transaction) from the smart wallet and estimates its gas.
+ * `gas` is the gas of the call itself, not of the whole user operation.
+ */
+export async function simulateKiroroCall(
+    publicClient: PublicClient,
+    account: `0x${string}`,
+    request: WriteContractRequest<Abi> | SendTransactionRequest
+): Promise<SimulationResult> {
+    if ("abi" in request) {
+        // Simulated from the smart wallet, which the public client has no account for
+        const parameters: SimulateContractParameters<Abi, string, readonly unknown[], Chain | undefined, Chain | undefined, `0x${string}`>
+            & EstimateContractGasParameters<Abi> = {
+            account,
+            address: request.address,
+            abi: request.abi,
+            functionName: request.functionName,
+            args: request.args ?? [],
+            value: request.value,
+        };
+
+        try {
+            const [{ result }, gas] = await Promise.all([
+                publicClient.simulateContract(parameters),
+                publicClient.estimateContractGas(parameters),
+            ]);
+            return { result, gas };
+        } catch (err) {
+            throw toSimulationError(err, request.abi);
+        }
+    }
+
+    const parameters = { account, to: request.to, data: request.data, value: request.value };
+    try {
+        const [{ data }, gas] = await Promise.all([
+            publicClient.call(parameters),
+            publicClient.estimateGas(parameters),
+        ]);
+        return { result: data, gas };
+    } catch (err) {
+        throw toSimulationError(err);
+    }
+}
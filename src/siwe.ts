@@ -0,0 +1,123 @@
+import type { Client } from "viem";
+import {
+    createSiweMessage,
+    parseSiweMessage,
+    validateSiweMessage,
+    verifySiweMessage,
+    type SiweMessage,
+} from "viem/siwe";
+
+// How long a link message can be submitted after signing (ms)
+const DEFAULT_EXPIRATION = 10 * 60 * 1000;
+// Resource identifying the linked Threads account
+const THREADS_RESOURCE_PREFIX = "https://www.threads.net/@";
+
+export interface KiroroSiweMessageParameters {
+    /** Wallet being linked (the smart wallet address) */
+    address: `0x${string}`;
+    chainId: number;
+    /** Server-issued nonce */
+    nonce: string;
+    /** Threads username of the Kiroro session */
+    threadsUsername: string;
+    /** Requesting domain (default: window.location.host) */
+    domain?: string;
+    /** Requesting origin (default: window.location.origin) */
+    uri?: string;
+    /** Human-readable statement (default: "Link Threads account @<username> to this wallet.") */
+    statement?: string;
+    issuedAt?: Date;
+    /** Default: 10 minutes after issuedAt */
+    expirationTime?: Date;
+}
+
+/**
+ * Builds the EIP-4361 message that links a Threads account to a wallet
+ */
+export function createKiroroSiweMessage(parameters: KiroroSiweMessageParameters): string {
+    const issuedAt = parameters.issuedAt ?? new Date();
+    return createSiweMessage({
+        address: parameters.address,
+        chainId: parameters.chainId,
+        nonce: parameters.nonce,
+        domain: parameters.domain ?? window.location.host,
+        uri: parameters.uri ?? window.location.origin,
+        version: "1",
+        statement: parameters.statement ?? `Link Threads account @${parameters.threadsUsername} to this wallet.`,
+        issuedAt,
+        expirationTime: parameters.expirationTime ?? new Date(issuedAt.getTime() + DEFAULT_EXPIRATION),
+        resources: [`${THREADS_RESOURCE_PREFIX}${parameters.threadsUsername}`],
+    });
+}
+
+export interface KiroroSiweLink extends Partial<SiweMessage> {
+    /** Threads username named in the message resources */
+    threadsUsername?: string;
+}
+
+/**
+ * Parses a SIWE message, including the linked Threads username
+ */
+export function parseKiroroSiweMessage(message: string): KiroroSiweLink {
+    const parsed = parseSiweMessage(message);
+    const resource = parsed.resources?.find((r) => r.startsWith(THREADS_RESOURCE_PREFIX));
+    return {
+        ...parsed,
+        threadsUsername: resource?.slice(THREADS_RESOURCE_PREFIX.length),
+    };
+}
+
+export interface ValidateKiroroSiweParameters {
+    /** Expected domain (required: a message signed for another site must not be accepted) */
+    domain: string;
+    /** Expected nonce, the one the server issued (required: prevents replaying an old signature) */
+    nonce: string;
+    /** Expected wallet */
+    address?: `0x${string}`;
+    /** Expected Threads username */
+    threadsUsername?: string;
+    /** Time to validate against (default: now) */
+    time?: Date;
+}
+
+/**
+ * Checks the fields of a SIWE link message (expiry, domain, nonce, address, Threads username).
+ * Does not check the signature; use verifyKiroroSiweMessage for that.
+ */
+export function validateKiroroSiweMessage(message: string, parameters: ValidateKiroroSiweParameters): boolean {
+    const parsed = parseKiroroSiweMessage(message);
+    if (!parsed.threadsUsername) return false;
+    // viem skips the domain / nonce checks when they are not given
+    if (!parameters.domain || !parameters.nonce) return false;
+    if (parameters.threadsUsername && parsed.threadsUsername.toLowerCase() !== parameters.threadsUsername.toLowerCase()) {
+        return false;
+    }
+    return validateSiweMessage({
+        message: parsed,
+        domain: parameters.domain,
+        nonce: parameters.nonce,
+        address: parameters.address,
+        time: parameters.time,
+    });
+}
+
+/**
+ * Validates a SIWE link message and verifies its signature.
+ * Supports smart wallets (ERC-1271, and ERC-6492 for undeployed accounts).
+ */
+export async function verifyKiroroSiweMessage(
+    client: Client,
+    parameters: ValidateKiroroSiweParameters & { message: string; signature: `0x${string}` }
+): Promise<boolean> {
+    const { message, signature, ...expected } = parameters;
+    if (!validateKiroroSiweMessage(message, expected)) return false;
+
+    return verifySiweMessage(client, {
+        message,
+        signature,
+        domain: expected.domain,
+        nonce: expected.nonce,
+        address: expected.address,
+        time: expected.time,
+    });
+}
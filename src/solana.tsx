@@ -9,6 +9,7 @@ import {
     clusterApiUrl
 } from "@solana/web3.js";
 import { KiroroSolanaContextType, SolanaCluster } from "./types";
+import { KiroroError } from "./errors";
 
 export function useKiroroSolana(clusters?: SolanaCluster[]): KiroroSolanaContextType {
     const { wallets, createWallet } = useSolanaWallets();
@@ -27,7 +28,7 @@ export function useKiroroSolana(clusters?: SolanaCluster[]): KiroroSolanaContext
     }, [wallet, createWallet]);
 
     const signMessage = useCallback(async (message: string) => {
-        if (!wallet) throw new Error("No Solana wallet connected");
+        if (!wallet) throw new KiroroError("SOLANA_NOT_CONNECTED", "No Solana wallet connected");
 
         const encodedMessage = new TextEncoder().encode(message);
         return await wallet.signMessage(encodedMessage);
@@ -37,7 +38,7 @@ export function useKiroroSolana(clusters?: SolanaCluster[]): KiroroSolanaContext
         transaction: Transaction,
         connection: Connection
     ) => {
-        if (!wallet) throw new Error("No Solana wallet connected");
+        if (!wallet) throw new KiroroError("SOLANA_NOT_CONNECTED", "No Solana wallet connected");
 
         // Ensure wallet behaves like a signer
         // Privy's wallet object might need specific handling depending on version
@@ -0,0 +1,220 @@
+"use client";
+
+/**
+ * Storage used to persist the Kiroro session.
+ *
+ * Methods may be sync or async, so adapters can be backed by WebCrypto, IndexedDB,
+ * a native keychain, etc.
+ */
+export interface KiroroStorage {
+    getItem: (key: string) => string | null | Promise<string | null>;
+    setItem: (key: string, value: string) => void | Promise<void>;
+    removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Storage whose methods complete synchronously (all built-in adapters except the encrypted one)
+ */
+export interface KiroroSyncStorage extends KiroroStorage {
+    getItem: (key: string) => string | null;
+    setItem: (key: string, value: string) => void;
+    removeItem: (key: string) => void;
+}
+
+/**
+ * Keeps values in memory only. Sessions do not survive a reload.
+ */
+export function createMemoryStorage(): KiroroSyncStorage {
+    const values = new Map<string, string>();
+    return {
+        getItem: (key) => values.get(key) ?? null,
+        setItem: (key, value) => {
+            values.set(key, value);
+        },
+        removeItem: (key) => {
+            values.delete(key);
+        },
+    };
+}
+
+/**
+ * Wraps window.localStorage / window.sessionStorage.
+ * On the server (or when web storage is blocked) values are kept in memory instead.
+ */
+function createWebStorage(name: "localStorage" | "sessionStorage"): KiroroSyncStorage {
+    const fallback = createMemoryStorage();
+
+    const resolve = (): Storage | null => {
+        if (typeof window === "undefined") return null;
+        try {
+            return window[name];
+        } catch {
+            // Accessing web storage throws when blocked (e.g. third-party iframes)
+            return null;
+        }
+    };
+
+    return {
+        getItem: (key) => {
+            const storage = resolve();
+            if (!storage) return fallback.getItem(key);
+            try {
+                return storage.getItem(key);
+            } catch {
+                return fallback.getItem(key);
+            }
+        },
+        setItem: (key, value) => {
+            const storage = resolve();
+            if (!storage) return fallback.setItem(key, value);
+            try {
+                storage.setItem(key, value);
+            } catch {
+                // Quota exceeded / private mode
+                fallback.setItem(key, value);
+            }
+        },
+        removeItem: (key) => {
+            fallback.removeItem(key);
+            try {
+                resolve()?.removeItem(key);
+            } catch {
+                // Nothing stored there
+            }
+        },
+    };
+}
+
+/**
+ * Persists values in localStorage (the default)
+ */
+export function createLocalStorage(): KiroroSyncStorage {
+    return createWebStorage("localStorage");
+}
+
+/**
+ * Persists values in sessionStorage (cleared when the tab closes)
+ */
+export function createSessionStorage(): KiroroSyncStorage {
+    return createWebStorage("sessionStorage");
+}
+
+export interface CookieStorageOptions {
+    /** Cookie path (default: "/") */
+    path?: string;
+    /** Cookie domain (default: current host) */
+    domain?: string;
+    /** Lifetime in seconds (default: session cookie) */
+    maxAge?: number;
+    /** SameSite attribute (default: "Lax") */
+    sameSite?: "Strict" | "Lax" | "None";
+    /** Secure attribute (default: true) */
+    secure?: boolean;
+}
+
+/**
+ * Persists values in cookies. Browsers limit a cookie to ~4KB.
+ *
+ * Note: cookies written from JavaScript cannot be HttpOnly.
+ */
+export function createCookieStorage(options: CookieStorageOptions = {}): KiroroSyncStorage {
+    const { path = "/", domain, maxAge, sameSite = "Lax", secure = true } = options;
+
+    const attributes = (expire: boolean) => {
+        const parts = [`path=${path}`, `SameSite=${sameSite}`];
+        if (domain) parts.push(`domain=${domain}`);
+        if (expire) parts.push("max-age=0");
+        else if (maxAge !== undefined) parts.push(`max-age=${maxAge}`);
+        if (secure) parts.push("Secure");
+        return parts.join("; ");
+    };
+
+    return {
+        getItem: (key) => {
+            if (typeof document === "undefined") return null;
+            const name = `${encodeURIComponent(key)}=`;
+            const cookie = document.cookie.split("; ").find((entry) => entry.startsWith(name));
+            return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+        },
+        setItem: (key, value) => {
+            if (typeof document === "undefined") return;
+            document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; ${attributes(false)}`;
+        },
+        removeItem: (key) => {
+            if (typeof document === "undefined") return;
+            document.cookie = `${encodeURIComponent(key)}=; ${attributes(true)}`;
+        },
+    };
+}
+
+export interface EncryptedStorageOptions {
+    /** AES-GCM key, or a secret to derive one from (SHA-256) */
+    key: CryptoKey | string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encrypts values with AES-GCM (WebCrypto) before handing them to another storage
+ *
+ * @example
+ * ```ts
+ * storage: createEncryptedStorage(createLocalStorage(), { key: myCryptoKey })
+ * ```
+ */
+export function createEncryptedStorage(storage: KiroroStorage, options: EncryptedStorageOptions): KiroroStorage {
+    let cryptoKey: Promise<CryptoKey> | null = null;
+
+    const getKey = (): Promise<CryptoKey> => {
+        if (!cryptoKey) {
+            const { key } = options;
+            cryptoKey = typeof key === "string"
+                ? crypto.subtle
+                    .digest("SHA-256", new TextEncoder().encode(key))
+                    .then((raw) => crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]))
+                : Promise.resolve(key);
+        }
+        return cryptoKey;
+    };
+
+    return {
+        getItem: async (key) => {
+            const stored = await storage.getItem(key);
+            if (!stored) return null;
+
+            try {
+                // Stored as "<iv>.<ciphertext>"
+                const [iv, ciphertext] = stored.split(".");
+                const plaintext = await crypto.subtle.decrypt(
+                    { name: "AES-GCM", iv: fromBase64(iv) },
+                    await getKey(),
+                    fromBase64(ciphertext)
+                );
+                return new TextDecoder().decode(plaintext);
+            } catch {
+                // Tampered, or encrypted with another key
+                return null;
+            }
+        },
+        setItem: async (key, value) => {
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const ciphertext = await crypto.subtle.encrypt(
+                { name: "AES-GCM", iv },
+                await getKey(),
+                new TextEncoder().encode(value)
+            );
+            await storage.setItem(key, `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`);
+        },
+        removeItem: (key) => storage.removeItem(key),
+    };
+}
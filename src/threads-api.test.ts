@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    ThreadsApiError,
+    ThreadsPermissionError,
+    ThreadsRateLimitError,
+    clearThreadsCache,
+    createThreadsClient,
+    publishThreadsPost,
+    waitForContainer,
+} from "./threads-api";
+import { KiroroError } from "./errors";
+
+const BASE_URL = "https://graph.threads.test/v1.0";
+
+type MockRequest = { method: string; path: string; query: URLSearchParams; body: URLSearchParams | null };
+type MockResponse = { status?: number; body: unknown };
+
+let requests: MockRequest[];
+// Answer of the mock Graph API to a request
+let respond: (request: MockRequest) => MockResponse;
+
+beforeEach(() => {
+    requests = [];
+    clearThreadsCache();
+    vi.stubGlobal("fetch", vi.fn(async (input: string, init?: RequestInit) => {
+        const url = new URL(input);
+        const request: MockRequest = {
+            method: init?.method ?? "GET",
+            path: url.pathname.replace("/v1.0", ""),
+            query: url.searchParams,
+            body: init?.body instanceof URLSearchParams ? init.body : null,
+        };
+        requests.push(request);
+        const { status = 200, body } = respond(request);
+        return Response.json(body, { status });
+    }));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+function client(options: { token?: string | null; cacheScope?: string; cacheTime?: number } = {}) {
+    const token = options.token === undefined ? "token-1" : options.token;
+    return createThreadsClient({
+        baseUrl: BASE_URL,
+        getAccessToken: async () => token,
+        cacheScope: options.cacheScope,
+        cacheTime: options.cacheTime,
+    });
+}
+
+const profile = { id: "1", username: "kiroro" };
+
+describe("createThreadsClient", () => {
+    it("reads the profile with the access token", async () => {
+        respond = () => ({ body: profile });
+
+        expect(await client().getProfile()).toEqual(profile);
+        expect(requests[0].path).toBe("/me");
+        expect(requests[0].query.get("access_token")).toBe("token-1");
+        expect(requests[0].query.get("fields")).toContain("username");
+    });
+
+    it("caches responses per scope and dedupes concurrent requests", async () => {
+        respond = () => ({ body: profile });
+        const alice = client({ cacheScope: "alice" });
+
+        await Promise.all([alice.getProfile(), alice.getProfile()]);
+        await alice.getProfile();
+        expect(requests).toHaveLength(1);
+
+        await client({ cacheScope: "bob" }).getProfile();
+        expect(requests).toHaveLength(2);
+
+        await alice.getProfile(undefined, true);
+        expect(requests).toHaveLength(3);
+    });
+
+    it("does not cache when cacheTime is 0", async () => {
+        respond = () => ({ body: profile });
+        const uncached = client({ cacheTime: 0 });
+
+        await uncached.getProfile();
+        await uncached.getProfile();
+
+        expect(requests).toHaveLength(2);
+    });
+
+    it("passes paging options", async () => {
+        respond = () => ({ body: { data: [], paging: { cursors: { after: "next" } } } });
+
+        const page = await client().getPosts("42", { limit: 10, after: "cursor" });
+
+        expect(page.paging?.cursors?.after).toBe("next");
+        expect(requests[0].path).toBe("/42/threads");
+        expect(requests[0].query.get("limit")).toBe("10");
+        expect(requests[0].query.get("after")).toBe("cursor");
+    });
+
+    it("sends the access token in the POST body, not the URL", async () => {
+        respond = () => ({ body: { id: "container-1" } });
+
+        await client().createContainer({ media_type: "TEXT", text: "gm" });
+
+        const [request] = requests;
+        expect(request.method).toBe("POST");
+        expect(request.query.has("access_token")).toBe(false);
+        expect(request.body?.get("access_token")).toBe("token-1");
+        expect(request.body?.get("text")).toBe("gm");
+        expect(request.body?.has("reply_to_id")).toBe(false);
+    });
+
+    it("throws NOT_AUTHENTICATED without an access token", async () => {
+        const error = await client({ token: null }).getProfile().catch((err) => err);
+
+        expect(error).toBeInstanceOf(ThreadsApiError);
+        expect(error.code).toBe("NOT_AUTHENTICATED");
+        expect(requests).toHaveLength(0);
+    });
+
+    it("maps Graph API errors", async () => {
+        const errorFor = async (status: number, error: Record<string, unknown>) => {
+            respond = () => ({ status, body: { error } });
+            return client({ cacheTime: 0 }).getProfile().catch((err) => err);
+        };
+
+        const rateLimited = await errorFor(400, { message: "Too many calls", code: 4 });
+        expect(rateLimited).toBeInstanceOf(ThreadsRateLimitError);
+        expect(rateLimited.code).toBe("LIMIT_EXCEEDED");
+
+        const forbidden = await errorFor(400, { message: "Missing permission", code: 10, type: "OAuthException" });
+        expect(forbidden).toBeInstanceOf(ThreadsPermissionError);
+        expect(forbidden.code).toBe("PERMISSION_DENIED");
+        expect(forbidden.type).toBe("OAuthException");
+
+        const expired = await errorFor(401, { message: "Session expired", code: 190 });
+        expect(expired.code).toBe("NOT_AUTHENTICATED");
+
+        const other = await errorFor(500, { message: "Unknown" });
+        expect(other.code).toBe("THREADS_API_ERROR");
+        expect(other.status).toBe(500);
+    });
+});
+
+describe("publishThreadsPost", () => {
+    it("creates a text container, waits for it and publishes", async () => {
+        respond = ({ path }) => {
+            if (path === "/me/threads") return { body: { id: "container-1" } };
+            if (path === "/container-1") return { body: { id: "container-1", status: "FINISHED" } };
+            if (path === "/me/threads_publish") return { body: { id: "post-1" } };
+            return { status: 404, body: {} };
+        };
+
+        const result = await publishThreadsPost(client(), { text: "gm", replyToId: "parent-1" });
+
+        expect(result).toEqual({ id: "post-1", containerId: "container-1" });
+        expect(requests.map((r) => r.path)).toEqual(["/me/threads", "/container-1", "/me/threads_publish"]);
+        expect(requests[0].body?.get("media_type")).toBe("TEXT");
+        expect(requests[0].body?.get("reply_to_id")).toBe("parent-1");
+        expect(requests[2].body?.get("creation_id")).toBe("container-1");
+    });
+
+    it("creates a carousel from several media items", async () => {
+        let containers = 0;
+        respond = ({ path, body }) => {
+            if (path === "/me/threads") return { body: { id: body?.get("media_type") === "CAROUSEL" ? "carousel" : `child-${++containers}` } };
+            if (path === "/me/threads_publish") return { body: { id: "post-2" } };
+            return { body: { id: path.slice(1), status: "FINISHED" } };
+        };
+
+        await publishThreadsPost(client(), {
+            text: "album",
+            media: [
+                { type: "IMAGE", url: "https://img.test/1.png" },
+                { type: "VIDEO", url: "https://img.test/2.mp4" },
+            ],
+        });
+
+        const created = requests.filter((r) => r.path === "/me/threads").map((r) => r.body!);
+        expect(created[0].get("is_carousel_item")).toBe("true");
+        expect(created[1].get("video_url")).toBe("https://img.test/2.mp4");
+        expect(created[2].get("media_type")).toBe("CAROUSEL");
+        expect(created[2].get("children")).toBe("child-1,child-2");
+    });
+
+    it("rejects empty posts and oversized carousels", async () => {
+        await expect(publishThreadsPost(client(), {})).rejects.toBeInstanceOf(KiroroError);
+        const media = Array.from({ length: 21 }, () => ({ type: "IMAGE" as const, url: "https://img.test/x.png" }));
+        await expect(publishThreadsPost(client(), { media })).rejects.toMatchObject({ code: "INVALID_REQUEST" });
+        expect(requests).toHaveLength(0);
+    });
+});
+
+describe("waitForContainer", () => {
+    it("polls until the container is finished", async () => {
+        const statuses = ["IN_PROGRESS", "IN_PROGRESS", "FINISHED"];
+        respond = () => ({ body: { id: "container-1", status: statuses.shift() } });
+
+        await waitForContainer(client(), "container-1", { pollInterval: 1 });
+
+        expect(requests).toHaveLength(3);
+    });
+
+    it("throws the container's error message", async () => {
+        respond = () => ({ body: { id: "container-1", status: "ERROR", error_message: "Unsupported video" } });
+
+        await expect(waitForContainer(client(), "container-1")).rejects.toThrow("Unsupported video");
+    });
+
+    it("gives up after the poll timeout", async () => {
+        respond = () => ({ body: { id: "container-1", status: "IN_PROGRESS" } });
+
+        const error = await waitForContainer(client(), "container-1", { pollInterval: 5, pollTimeout: 1 }).catch((err) => err);
+
+        expect(error).toBeInstanceOf(ThreadsApiError);
+        expect(error.status).toBe(408);
+    });
+});
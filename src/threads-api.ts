@@ -0,0 +1,336 @@
+"use client";
+
+import { KiroroError, type KiroroErrorCode } from "./errors";
+import type {
+    ThreadsContainerStatus,
+    ThreadsPage,
+    ThreadsPost,
+    ThreadsProfile,
+    ThreadsPublishingLimit,
+    ThreadsPublishMedia,
+    ThreadsPublishRequest,
+    ThreadsPublishResult,
+    ThreadsReply,
+} from "./types";
+
+export const DEFAULT_THREADS_API_URL = "https://graph.threads.net/v1.0";
+
+// How long responses are served from the cache (ms)
+const DEFAULT_CACHE_TIME = 60 * 1000;
+// Media container status polling
+const DEFAULT_POLL_INTERVAL = 3 * 1000;
+const DEFAULT_POLL_TIMEOUT = 5 * 60 * 1000;
+const MAX_CAROUSEL_ITEMS = 20;
+
+export const THREADS_PROFILE_FIELDS = "id,username,name,threads_profile_picture_url,threads_biography";
+export const THREADS_POST_FIELDS =
+    "id,media_product_type,media_type,media_url,permalink,username,text,timestamp,shortcode,thumbnail_url,is_quote_post,children";
+export const THREADS_REPLY_FIELDS = `${THREADS_POST_FIELDS},has_replies,is_reply,root_post,replied_to,hide_status`;
+
+/**
+ * Error returned by the Threads Graph API
+ */
+export class ThreadsApiError extends KiroroError {
+    /** HTTP status */
+    status: number;
+    /** Graph API error code */
+    graphCode?: number;
+    /** Graph API error type (e.g. OAuthException) */
+    type?: string;
+
+    constructor(
+        message: string,
+        status: number,
+        graphCode?: number,
+        type?: string,
+        code: KiroroErrorCode = status === 401 ? "NOT_AUTHENTICATED" : "THREADS_API_ERROR"
+    ) {
+        super(code, `Threads API: ${message}`);
+        this.name = "ThreadsApiError";
+        this.status = status;
+        this.graphCode = graphCode;
+        this.type = type;
+    }
+}
+
+/**
+ * The token lacks a permission (e.g. threads_content_publish) or the action is not allowed
+ */
+export class ThreadsPermissionError extends ThreadsApiError {
+    constructor(message: string, status: number, graphCode?: number, type?: string) {
+        super(message, status, graphCode, type, "PERMISSION_DENIED");
+        this.name = "ThreadsPermissionError";
+    }
+}
+
+/**
+ * The API rate limit or the 24h publishing quota was reached
+ */
+export class ThreadsRateLimitError extends ThreadsApiError {
+    constructor(message: string, status: number, graphCode?: number, type?: string) {
+        super(message, status, graphCode, type, "LIMIT_EXCEEDED");
+        this.name = "ThreadsRateLimitError";
+    }
+}
+
+// Graph API error codes (https://developers.facebook.com/docs/graph-api/guides/error-handling)
+const RATE_LIMIT_CODES = [4, 17, 32, 613];
+const PERMISSION_CODES = [3, 10];
+
+function toThreadsApiError(status: number, error: { message?: string; code?: number; type?: string }) {
+    const message = error.message || `Request failed (${status})`;
+    const code = error.code;
+
+    if (status === 429 || (code !== undefined && RATE_LIMIT_CODES.includes(code))) {
+        return new ThreadsRateLimitError(message, status, code, error.type);
+    }
+    // 200-299 are permission errors
+    if (status === 403 || (code !== undefined && (PERMISSION_CODES.includes(code) || (code >= 200 && code < 300)))) {
+        return new ThreadsPermissionError(message, status, code, error.type);
+    }
+    return new ThreadsApiError(message, status, code, error.type);
+}
+
+export interface PageOptions {
+    /** Page size (default: 25) */
+    limit?: number;
+    /** Cursor from the previous page's paging.cursors.after */
+    after?: string;
+    /** Comma-separated Graph API fields */
+    fields?: string;
+    /** Skip the cache and fetch from the API */
+    fresh?: boolean;
+}
+
+/**
+ * Parameters of POST /me/threads (see the Threads publishing docs)
+ */
+export interface ThreadsContainerParams {
+    media_type: "TEXT" | "IMAGE" | "VIDEO" | "CAROUSEL";
+    text?: string;
+    image_url?: string;
+    video_url?: string;
+    alt_text?: string;
+    is_carousel_item?: boolean;
+    /** Comma-separated child container IDs (carousels) */
+    children?: string;
+    reply_to_id?: string;
+    quote_post_id?: string;
+}
+
+export interface ThreadsClientOptions {
+    /** Graph API base URL (default: https://graph.threads.net/v1.0) */
+    baseUrl?: string;
+    /** Returns the current Threads access token */
+    getAccessToken: () => Promise<string | null>;
+    /** Scope for cached responses, e.g. the user ID (cache entries are never shared across scopes) */
+    cacheScope?: string;
+    /** Cache lifetime in ms (default: 60s, 0 disables caching) */
+    cacheTime?: number;
+}
+
+interface CacheEntry {
+    data: unknown;
+    fetchedAt: number;
+}
+
+// Shared by every client, keyed by scope + base URL + path
+const responseCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Drop cached Threads API responses (e.g. after publishing)
+ */
+export function clearThreadsCache() {
+    responseCache.clear();
+}
+
+/**
+ * Minimal typed client for the Threads Graph API
+ */
+export function createThreadsClient(options: ThreadsClientOptions) {
+    const baseUrl = (options.baseUrl || DEFAULT_THREADS_API_URL).replace(/\/$/, "");
+    const cacheTime = options.cacheTime ?? DEFAULT_CACHE_TIME;
+
+    const parseResponse = async (response: Response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || data.error) {
+            throw toThreadsApiError(response.status, data.error ?? {});
+        }
+        return data;
+    };
+
+    const post = async <T>(path: string, params: Record<string, string | number | boolean | undefined>): Promise<T> => {
+        const token = await options.getAccessToken();
+        if (!token) {
+            throw new ThreadsApiError("Not authenticated", 401);
+        }
+
+        // Sent as a form body so the access token stays out of the URL
+        const body = new URLSearchParams({ access_token: token });
+        Object.entries(params).forEach(([key, value]) => {
+            if (value !== undefined) body.set(key, String(value));
+        });
+
+        return parseResponse(await fetch(`${baseUrl}${path}`, { method: "POST", body })) as Promise<T>;
+    };
+
+    const get = async <T>(path: string, params: Record<string, string | number | undefined>, fresh = false): Promise<T> => {
+        const query = new URLSearchParams();
+        Object.entries(params).forEach(([key, value]) => {
+            if (value !== undefined) query.set(key, String(value));
+        });
+        // The access token is appended after the cache key so it is never part of it
+        const cacheKey = `${options.cacheScope ?? ""}|${baseUrl}${path}?${query}`;
+
+        const cached = responseCache.get(cacheKey);
+        if (!fresh && cached && Date.now() - cached.fetchedAt < cacheTime) {
+            return cached.data as T;
+        }
+        if (inFlight.has(cacheKey)) return inFlight.get(cacheKey) as Promise<T>;
+
+        const request = (async () => {
+            const token = await options.getAccessToken();
+            if (!token) {
+                throw new ThreadsApiError("Not authenticated", 401);
+            }
+            query.set("access_token", token);
+
+            const data = await parseResponse(await fetch(`${baseUrl}${path}?${query}`));
+
+            if (cacheTime > 0) {
+                responseCache.set(cacheKey, { data, fetchedAt: Date.now() });
+            }
+            return data as T;
+        })();
+
+        inFlight.set(cacheKey, request);
+        try {
+            return await request;
+        } finally {
+            inFlight.delete(cacheKey);
+        }
+    };
+
+    return {
+        /** Profile of the authenticated user */
+        getProfile: (fields = THREADS_PROFILE_FIELDS, fresh = false) => get<ThreadsProfile>("/me", { fields }, fresh),
+
+        /** Posts of a user (default: the authenticated user), newest first */
+        getPosts: (userId = "me", { limit = 25, after, fields = THREADS_POST_FIELDS, fresh }: PageOptions = {}) =>
+            get<ThreadsPage<ThreadsPost>>(`/${userId}/threads`, { fields, limit, after }, fresh),
+
+        /** Top-level replies to a post */
+        getReplies: (mediaId: string, { limit = 25, after, fields = THREADS_REPLY_FIELDS, fresh }: PageOptions = {}) =>
+            get<ThreadsPage<ThreadsReply>>(`/${mediaId}/replies`, { fields, limit, after }, fresh),
+
+        /** Create a media container (step 1 of publishing) */
+        createContainer: (params: ThreadsContainerParams) => post<{ id: string }>("/me/threads", { ...params }),
+
+        /** Processing status of a media container */
+        getContainerStatus: (containerId: string) =>
+            get<ThreadsContainerStatus>(`/${containerId}`, { fields: "id,status,error_message" }, true),
+
+        /** Publish a finished container (step 2 of publishing) */
+        publishContainer: (containerId: string) =>
+            post<{ id: string }>("/me/threads_publish", { creation_id: containerId }),
+
+        /** Posts published in the current 24h window and the quota */
+        getPublishingLimit: () =>
+            get<ThreadsPage<ThreadsPublishingLimit>>("/me/threads_publishing_limit", { fields: "quota_usage,config" }, true),
+    };
+}
+
+export type ThreadsClient = ReturnType<typeof createThreadsClient>;
+
+export interface PublishOptions {
+    /** How often container status is polled (ms, default: 3s) */
+    pollInterval?: number;
+    /** Give up waiting for media processing after this long (ms, default: 5 min) */
+    pollTimeout?: number;
+}
+
+/**
+ * Polls a media container until it is ready to publish.
+ * Text containers are ready right away; video containers can take a while.
+ */
+export async function waitForContainer(
+    client: ThreadsClient,
+    containerId: string,
+    { pollInterval = DEFAULT_POLL_INTERVAL, pollTimeout = DEFAULT_POLL_TIMEOUT }: PublishOptions = {}
+): Promise<void> {
+    const deadline = Date.now() + pollTimeout;
+
+    while (true) {
+        const { status, error_message } = await client.getContainerStatus(containerId);
+
+        if (status === "FINISHED") return;
+        if (status === "PUBLISHED") {
+            throw new ThreadsApiError(`Container ${containerId} was already published`, 400);
+        }
+        if (status === "ERROR" || status === "EXPIRED") {
+            throw new ThreadsApiError(error_message || `Container ${containerId} ${status.toLowerCase()}`, 400);
+        }
+        if (Date.now() + pollInterval > deadline) {
+            throw new ThreadsApiError(`Timed out waiting for container ${containerId} to finish processing`, 408);
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+}
+
+function mediaParams(media: ThreadsPublishMedia) {
+    return media.type === "IMAGE"
+        ? { media_type: "IMAGE" as const, image_url: media.url, alt_text: media.altText }
+        : { media_type: "VIDEO" as const, video_url: media.url, alt_text: media.altText };
+}
+
+/**
+ * Publishes a post with the two-step container flow: create the container(s),
+ * wait until media is processed, then publish.
+ */
+export async function publishThreadsPost(
+    client: ThreadsClient,
+    request: ThreadsPublishRequest,
+    options: PublishOptions = {}
+): Promise<ThreadsPublishResult> {
+    const { text, replyToId, quotePostId } = request;
+    const media = request.media === undefined ? [] : Array.isArray(request.media) ? request.media : [request.media];
+
+    if (!text && media.length === 0) {
+        throw new KiroroError("INVALID_REQUEST", "A Threads post needs text or media.");
+    }
+    if (media.length > MAX_CAROUSEL_ITEMS) {
+        throw new KiroroError("INVALID_REQUEST", `A carousel can have at most ${MAX_CAROUSEL_ITEMS} items.`);
+    }
+
+    const shared = { text, reply_to_id: replyToId, quote_post_id: quotePostId };
+    let containerId: string;
+
+    if (media.length > 1) {
+        // Carousel: one container per item, then a carousel container referencing them
+        const children: string[] = [];
+        for (const item of media) {
+            const child = await client.createContainer({ ...mediaParams(item), is_carousel_item: true });
+            children.push(child.id);
+        }
+        await Promise.all(children.map((id) => waitForContainer(client, id, options)));
+
+        ({ id: containerId } = await client.createContainer({
+            ...shared,
+            media_type: "CAROUSEL",
+            children: children.join(","),
+        }));
+    } else if (media.length === 1) {
+        ({ id: containerId } = await client.createContainer({ ...shared, ...mediaParams(media[0]) }));
+    } else {
+        ({ id: containerId } = await client.createContainer({ ...shared, media_type: "TEXT" }));
+    }
+
+    await waitForContainer(client, containerId, options);
+    const { id } = await client.publishContainer(containerId);
+
+    // The user's posts (and replies of the parent) changed
+    clearThreadsCache();
+
+    return { id, containerId };
+}
@@ -1,7 +1,9 @@
 "use client";
 
-import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
-import type { KiroroUser, ThreadsOAuthState, ThreadsAuthResponse } from "./types";
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from "react";
+import type { KiroroUser, ThreadsOAuthState, ThreadsAuthResponse, KiroroLoginMode } from "./types";
+import { createLocalStorage, createSessionStorage, type KiroroStorage } from "./storage";
+import { KiroroError, toKiroroError } from "./errors";
 
 const KIRORO_BACKEND = "https://app.kiroro.xyz";
 const ALLOWED_BACKENDS = ["https://app.kiroro.xyz", "https://staging.kiroro.xyz", "http://localhost:3000"];
@@ -9,15 +11,33 @@ const IS_DEV = typeof process !== 'undefined' && process.env?.NODE_ENV === 'deve
 
 interface ThreadsAuthContextType {
     isLoading: boolean;
-    error: string | null;
+    error: KiroroError | null;
+    /** Typed error when OAuth state, nonce or PKCE verification failed */
+    authError: KiroroAuthError | null;
     user: KiroroUser | null;
     accessToken: string | null;
-    initiateThreadsLogin: (clientId: string, backendUrl?: string) => void;
-    handleCallback: (code: string, clientId: string, backendUrl?: string) => Promise<ThreadsAuthResponse>;
+    initiateThreadsLogin: (clientId: string, backendUrl?: string, options?: LoginOptions) => void;
+    handleCallback: (code: string, clientId: string, backendUrl?: string, state?: string) => Promise<ThreadsAuthResponse>;
+    /** Finish a redirect login from the callback URL (null if the URL is not a callback) */
+    completeRedirectLogin: (url?: string) => Promise<RedirectLoginResult | null>;
     logout: () => void;
     getAccessToken: () => Promise<string | null>;
 }
 
+interface LoginOptions {
+    /** How to open the Threads consent screen (default: "popup") */
+    mode?: KiroroLoginMode;
+    /** Where the backend sends the user back to in redirect mode (default: the current page) */
+    redirectUri?: string;
+}
+
+export interface RedirectLoginResult extends ThreadsAuthResponse {
+    /** Page the user started the login from */
+    returnTo?: string;
+    /** Why the login failed (set when success is false) */
+    failure?: KiroroError;
+}
+
 const ThreadsAuthContext = createContext<ThreadsAuthContextType | null>(null);
 
 export function useThreadsAuth() {
@@ -31,50 +51,517 @@ export function useThreadsAuth() {
 interface ThreadsAuthProviderProps {
     children: React.ReactNode;
     backendUrl?: string;
+    /** Called when the session expires and cannot be refreshed */
+    onSessionExpired?: () => void;
+    /** Where the session is persisted (default: localStorage) */
+    storage?: KiroroStorage;
 }
 
 const STORAGE_KEY = "kiroro_threads_session";
+const REDIRECT_PENDING_KEY = "kiroro_redirect_pending";
+const RETURN_TO_KEY = "kiroro_return_to";
+const OAUTH_STATE_KEY = "kiroro_oauth_state";
+const OAUTH_NONCE_KEY = "kiroro_oauth_nonce";
+const PKCE_VERIFIER_KEY = "kiroro_pkce_verifier";
+
+// Session storage used when KiroroConfig.storage is not set
+const defaultStorage = createLocalStorage();
+
+// One-time login values (state, nonce, PKCE verifier, redirect bookkeeping) only need to
+// survive the redirect within this tab
+const pendingStorage = createSessionStorage();
+
+export type KiroroAuthErrorCode =
+    | "STATE_MISMATCH"
+    | "NONCE_MISMATCH"
+    | "PKCE_VERIFIER_MISSING"
+    | "PKCE_EXCHANGE_REQUIRED"
+    | "NO_PENDING_LOGIN";
+
+/**
+ * Thrown (and exposed as `authError`) when a login response fails OAuth verification
+ */
+export class KiroroAuthError extends KiroroError<KiroroAuthErrorCode> {
+    constructor(code: KiroroAuthErrorCode, message: string) {
+        super(code, message);
+        this.name = "KiroroAuthError";
+    }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * URL-safe random string (used for state, nonce and the PKCE code_verifier)
+ */
+function randomToken(byteLength = 32): string {
+    return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * PKCE (RFC 7636) code_verifier and its S256 code_challenge
+ */
+async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+    const verifier = randomToken(32);
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+    return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+/**
+ * Remove the one-time values of a pending login
+ */
+function clearPendingLogin() {
+    pendingStorage.removeItem(OAUTH_STATE_KEY);
+    pendingStorage.removeItem(OAUTH_NONCE_KEY);
+    pendingStorage.removeItem(PKCE_VERIFIER_KEY);
+}
+
+// Threads, Instagram, Facebook and other in-app browsers where popups fail
+const IN_APP_BROWSER_PATTERN = /Barcelona|Instagram|FBAN|FBAV|FB_IAB|Line\/|Twitter|TikTok|musical_ly|BytedanceWebview|; wv\)/i;
+
+/**
+ * Whether the current page runs inside an in-app browser (Threads, Instagram, ...)
+ */
+export function isInAppBrowser(userAgent?: string): boolean {
+    const ua = userAgent ?? (typeof navigator !== "undefined" ? navigator.userAgent : "");
+    return IN_APP_BROWSER_PATTERN.test(ua);
+}
+
+// Used when the backend does not send an expiry
+const DEFAULT_SESSION_TTL = 60 * 60 * 1000;
+// Refresh this long before the access token expires
+const REFRESH_BUFFER = 5 * 60 * 1000;
 
 interface StoredSession {
     accessToken: string;
+    refreshToken?: string;
     user: KiroroUser;
     expiresAt: number;
+    /** Client ID the session was issued for (needed to refresh) */
+    clientId?: string;
+    /** Login nonce the backend bound to this session */
+    nonce?: string;
 }
 
-export function ThreadsAuthProvider({ children, backendUrl = KIRORO_BACKEND }: ThreadsAuthProviderProps) {
+/**
+ * Resolve the session expiry sent by the backend.
+ * Accepts `expiresAt` (epoch seconds, epoch ms or ISO string) or `expiresIn` (seconds).
+ */
+function resolveExpiresAt(data: { expiresAt?: number | string; expiresIn?: number }): number {
+    if (typeof data.expiresAt === "number") {
+        // Values below 1e12 are epoch seconds
+        return data.expiresAt < 1e12 ? data.expiresAt * 1000 : data.expiresAt;
+    }
+    if (typeof data.expiresAt === "string") {
+        const parsed = Date.parse(data.expiresAt);
+        if (!Number.isNaN(parsed)) return parsed;
+    }
+    if (typeof data.expiresIn === "number") {
+        return Date.now() + data.expiresIn * 1000;
+    }
+    return Date.now() + DEFAULT_SESSION_TTL;
+}
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * setTimeout that supports delays longer than MAX_TIMER_DELAY. Returns a cancel function.
+ */
+function setLongTimeout(callback: () => void, delay: number): () => void {
+    let timer: ReturnType<typeof setTimeout>;
+    const target = Date.now() + Math.max(delay, 0);
+
+    const schedule = () => {
+        const remaining = target - Date.now();
+        if (remaining <= 0) {
+            callback();
+            return;
+        }
+        timer = setTimeout(schedule, Math.min(remaining, MAX_TIMER_DELAY));
+    };
+    timer = setTimeout(schedule, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+
+    return () => clearTimeout(timer);
+}
+
+async function readSession(storage: KiroroStorage): Promise<StoredSession | null> {
+    try {
+        const stored = await storage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+async function writeSession(storage: KiroroStorage, session: StoredSession) {
+    try {
+        await storage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } catch (e) {
+        console.warn("[Kiroro] Failed to persist session:", e);
+    }
+}
+
+type SessionSyncEvent = "login" | "refresh" | "logout" | "expired";
+
+const REFRESH_LOCK = "kiroro_session_refresh";
+
+/**
+ * Runs `task` while holding a lock shared by every tab of this origin (Web Locks API),
+ * so only one tab at a time redeems the refresh token. Runs it directly where locks are unavailable.
+ */
+async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+        return task();
+    }
+    return await navigator.locks.request(REFRESH_LOCK, task);
+}
+
+const SYNC_CHANNEL = "kiroro_session_sync";
+
+/**
+ * Notifies other tabs of session changes, over BroadcastChannel or (when unavailable)
+ * localStorage `storage` events. Only the event is sent: tabs re-read the session
+ * from their storage, so tokens never leave the configured storage adapter.
+ */
+function createSessionSync(onEvent: (event: SessionSyncEvent) => void) {
+    if (typeof window === "undefined") {
+        return { post: (_event: SessionSyncEvent) => {}, close: () => {} };
+    }
+
+    if (typeof BroadcastChannel !== "undefined") {
+        const channel = new BroadcastChannel(SYNC_CHANNEL);
+        channel.onmessage = (message: MessageEvent) => onEvent(message.data?.type);
+        return {
+            post: (event: SessionSyncEvent) => channel.postMessage({ type: event }),
+            close: () => channel.close(),
+        };
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key !== SYNC_CHANNEL || !event.newValue) return;
+        try {
+            onEvent(JSON.parse(event.newValue).type);
+        } catch {
+            // Not one of ours
+        }
+    };
+    window.addEventListener("storage", handleStorage);
+
+    return {
+        post: (event: SessionSyncEvent) => {
+            try {
+                // The timestamp makes repeated events a change, so other tabs are notified
+                localStorage.setItem(SYNC_CHANNEL, JSON.stringify({ type: event, at: Date.now() }));
+                localStorage.removeItem(SYNC_CHANNEL);
+            } catch {
+                // Web storage unavailable: other tabs catch up on reload
+            }
+        },
+        close: () => window.removeEventListener("storage", handleStorage),
+    };
+}
+
+async function removeSession(storage: KiroroStorage) {
+    try {
+        await storage.removeItem(STORAGE_KEY);
+    } catch (e) {
+        console.warn("[Kiroro] Failed to clear session:", e);
+    }
+}
+
+export function ThreadsAuthProvider({
+    children,
+    backendUrl = KIRORO_BACKEND,
+    onSessionExpired,
+    storage = defaultStorage,
+}: ThreadsAuthProviderProps) {
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<KiroroError | null>(null);
+    const [authError, setAuthError] = useState<KiroroAuthError | null>(null);
     const [user, setUser] = useState<KiroroUser | null>(null);
     const [accessToken, setAccessToken] = useState<string | null>(null);
+    const [expiresAt, setExpiresAt] = useState<number | null>(null);
+
+    // In-flight refresh, shared by concurrent getAccessToken calls
+    const refreshPromise = useRef<Promise<string | null> | null>(null);
+    const onSessionExpiredRef = useRef(onSessionExpired);
+    onSessionExpiredRef.current = onSessionExpired;
+    const storageRef = useRef(storage);
+    storageRef.current = storage;
+    const syncRef = useRef<ReturnType<typeof createSessionSync> | null>(null);
+
+    /**
+     * Expose a session to the app (without persisting it)
+     */
+    const showSession = useCallback((session: StoredSession) => {
+        setAccessToken(session.accessToken);
+        setUser(session.user);
+        setExpiresAt(session.expiresAt);
+    }, []);
+
+    const clearSessionState = useCallback(() => {
+        setUser(null);
+        setAccessToken(null);
+        setExpiresAt(null);
+    }, []);
+
+    /**
+     * Persist a session, expose it to the app and tell other tabs
+     */
+    const applySession = useCallback(async (session: StoredSession, event: "login" | "refresh" = "login") => {
+        showSession(session);
+        await writeSession(storageRef.current, session);
+        syncRef.current?.post(event);
+    }, [showSession]);
+
+    /**
+     * Clear the session after it expired and could not be refreshed
+     */
+    const expireSession = useCallback(() => {
+        removeSession(storageRef.current);
+        clearSessionState();
+        syncRef.current?.post("expired");
+        if (IS_DEV) console.log("[Kiroro] Session expired, cleared");
+        onSessionExpiredRef.current?.();
+    }, [clearSessionState]);
+
+    /**
+     * Exchange the refresh token for a new access token.
+     * Concurrent callers share a single request, and tabs take turns: a tab that waited
+     * for another tab's refresh picks up the rotated session instead of reusing the old token.
+     */
+    const refreshSession = useCallback((): Promise<string | null> => {
+        if (refreshPromise.current) return refreshPromise.current;
+
+        const run = async (): Promise<string | null> => {
+            const session = await readSession(storageRef.current);
+            if (!session) return null;
+
+            // Another tab already refreshed the shared session
+            if (session.expiresAt > Date.now() + REFRESH_BUFFER) {
+                showSession(session);
+                return session.accessToken;
+            }
+
+            if (session.refreshToken) {
+                try {
+                    const response = await fetch(`${backendUrl}/api/threads/refresh`, {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ refreshToken: session.refreshToken, clientId: session.clientId }),
+                    });
+
+                    const data = await response.json();
+
+                    if (!response.ok || !data.success || !data.token) {
+                        throw new KiroroError("AUTH_FAILED", data.error || "Session refresh failed");
+                    }
+
+                    await applySession({
+                        ...session,
+                        accessToken: data.token,
+                        // Refresh tokens may be rotated
+                        refreshToken: data.refreshToken ?? session.refreshToken,
+                        user: data.user ?? session.user,
+                        expiresAt: resolveExpiresAt(data),
+                    }, "refresh");
+                    if (IS_DEV) console.log("[Kiroro] Session refreshed");
+                    return data.token as string;
+                } catch (err) {
+                    console.warn("[Kiroro] Failed to refresh session:", err);
+                }
+            }
+
+            // Could not refresh: keep using the token until it actually expires
+            if (session.expiresAt > Date.now()) {
+                return session.accessToken;
+            }
+            expireSession();
+            return null;
+        };
+
+        refreshPromise.current = withRefreshLock(run).finally(() => {
+            refreshPromise.current = null;
+        });
+        return refreshPromise.current;
+    }, [backendUrl, showSession, applySession, expireSession]);
 
     // Restore session on mount
     useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const session: StoredSession = JSON.parse(stored);
-                // Check if session is still valid (with 5 min buffer)
-                if (session.expiresAt > Date.now() + 5 * 60 * 1000) {
+        readSession(storageRef.current).then((session) => {
+            if (session) {
+                // Sessions close to expiry are refreshed by the background refresh below
+                if (session.expiresAt > Date.now()) {
                     setUser(session.user);
                     setAccessToken(session.accessToken);
+                    setExpiresAt(session.expiresAt);
                     if (IS_DEV) console.log("[Kiroro] Restored session for", session.user.username);
+                } else if (session.refreshToken) {
+                    refreshSession();
                 } else {
                     // Session expired, clear it
-                    localStorage.removeItem(STORAGE_KEY);
+                    removeSession(storageRef.current);
                     if (IS_DEV) console.log("[Kiroro] Session expired, cleared");
                 }
             }
-        } catch (e) {
-            console.warn("[Kiroro] Failed to restore session:", e);
-            localStorage.removeItem(STORAGE_KEY);
-        }
+        });
     }, []);
 
+    // Follow logins, logouts and refreshes made in other tabs
+    useEffect(() => {
+        const sync = createSessionSync((event) => {
+            if (IS_DEV) console.log("[Kiroro] Session", event, "in another tab");
+
+            if (event === "login" || event === "refresh") {
+                readSession(storageRef.current).then((session) => {
+                    // Per-tab storage (memory / sessionStorage) has nothing to pick up
+                    if (!session || session.expiresAt <= Date.now()) return;
+                    showSession(session);
+                    setError(null);
+                    setAuthError(null);
+                    setIsLoading(false);
+                });
+            } else if (event === "logout" || event === "expired") {
+                removeSession(storageRef.current);
+                clearSessionState();
+                if (event === "expired") onSessionExpiredRef.current?.();
+            }
+        });
+        syncRef.current = sync;
+
+        return () => {
+            sync.close();
+            syncRef.current = null;
+        };
+    }, [showSession, clearSessionState]);
+
+    // Refresh in the background shortly before the access token expires,
+    // and end the session if it still has not been refreshed at expiry
+    useEffect(() => {
+        if (!expiresAt) return;
+
+        const cancelRefresh = setLongTimeout(() => {
+            refreshSession();
+        }, expiresAt - REFRESH_BUFFER - Date.now());
+
+        const cancelExpiry = setLongTimeout(() => {
+            readSession(storageRef.current).then((session) => {
+                if (session?.expiresAt === expiresAt) {
+                    expireSession();
+                }
+            });
+        }, expiresAt - Date.now());
+
+        return () => {
+            cancelRefresh();
+            cancelExpiry();
+        };
+    }, [expiresAt, refreshSession, expireSession]);
+
     /**
-     * Opens Threads OAuth popup
+     * Handle OAuth callback: verify state, exchange the code with the PKCE verifier, verify the nonce.
+     * Failures are returned with the KiroroError that caused them.
      */
-    const initiateThreadsLogin = useCallback((clientId: string, customBackendUrl?: string) => {
+    const exchangeCode = useCallback(async (
+        code: string,
+        clientId: string,
+        customBackendUrl?: string,
+        state?: string
+    ): Promise<ThreadsAuthResponse & { failure?: KiroroError }> => {
         const backend = customBackendUrl || backendUrl;
+        setIsLoading(true);
+        setError(null);
+        setAuthError(null);
+
+        try {
+            const expectedState = pendingStorage.getItem(OAUTH_STATE_KEY);
+            const expectedNonce = pendingStorage.getItem(OAUTH_NONCE_KEY);
+            const codeVerifier = pendingStorage.getItem(PKCE_VERIFIER_KEY);
+
+            // SECURITY: Only accept codes for the login this browser started
+            if (!expectedState) {
+                throw new KiroroAuthError("NO_PENDING_LOGIN", "No pending login found for this callback.");
+            }
+            if (state !== expectedState) {
+                throw new KiroroAuthError("STATE_MISMATCH", "OAuth state does not match the pending login.");
+            }
+            if (!codeVerifier) {
+                throw new KiroroAuthError("PKCE_VERIFIER_MISSING", "PKCE code verifier is missing for the pending login.");
+            }
+
+            const response = await fetch(`${backend}/api/threads/callback`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ code, clientId, codeVerifier }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new KiroroError("AUTH_FAILED", data.error || "Authentication failed");
+            }
+
+            if (data.nonce !== expectedNonce) {
+                throw new KiroroAuthError("NONCE_MISMATCH", "Session nonce does not match the pending login.");
+            }
+
+            // Store session
+            clearPendingLogin();
+            await applySession({
+                accessToken: data.token,
+                refreshToken: data.refreshToken,
+                user: data.user,
+                expiresAt: resolveExpiresAt(data),
+                clientId,
+                nonce: data.nonce,
+            });
+            setIsLoading(false);
+
+            return data;
+        } catch (err: any) {
+            const kiroroError = toKiroroError(err, "AUTH_FAILED");
+            clearPendingLogin();
+            if (err instanceof KiroroAuthError) setAuthError(err);
+            setError(kiroroError);
+            setIsLoading(false);
+            return {
+                success: false,
+                error: kiroroError.message,
+                errorCode: kiroroError.code,
+                failure: kiroroError,
+            };
+        }
+    }, [backendUrl, applySession]);
+
+    /**
+     * Exchange an OAuth code from a callback
+     */
+    const handleCallback = useCallback(async (
+        code: string,
+        clientId: string,
+        customBackendUrl?: string,
+        state?: string
+    ): Promise<ThreadsAuthResponse> => {
+        const { failure: _failure, ...response } = await exchangeCode(code, clientId, customBackendUrl, state);
+        return response;
+    }, [exchangeCode]);
+
+    /**
+     * Opens the Threads OAuth consent screen in a popup or via a full-page redirect
+     */
+    const initiateThreadsLogin = useCallback((
+        clientId: string,
+        customBackendUrl?: string,
+        options: LoginOptions = {}
+    ) => {
+        const backend = customBackendUrl || backendUrl;
+        const mode = options.mode ?? "popup";
 
         // SECURITY: Warn if using untrusted backend
         if (!ALLOWED_BACKENDS.some(allowed => backend.startsWith(allowed))) {
@@ -83,56 +570,114 @@ export function ThreadsAuthProvider({ children, backendUrl = KIRORO_BACKEND }: T
 
         setIsLoading(true);
         setError(null);
+        setAuthError(null);
+
+        // Generate state for CSRF protection, and a nonce the backend binds to the session
+        const state = randomToken();
+        const nonce = randomToken();
+        pendingStorage.setItem(OAUTH_STATE_KEY, state);
+        pendingStorage.setItem(OAUTH_NONCE_KEY, nonce);
+        pendingStorage.setItem("kiroro_client_id", clientId);
+
+        const fail = (failure: KiroroError) => {
+            clearPendingLogin();
+            setError(failure);
+            setIsLoading(false);
+        };
+
+        /**
+         * Redirect to our backend which handles the Threads OAuth (with a PKCE challenge)
+         */
+        const buildAuthUrl = async () => {
+            const { verifier, challenge } = await createPkcePair();
+            pendingStorage.setItem(PKCE_VERIFIER_KEY, verifier);
+            return `${backend}/api/threads/authorize?client_id=${encodeURIComponent(clientId)}&state=${state}&nonce=${nonce}&code_challenge=${challenge}&code_challenge_method=S256`;
+        };
 
-        // Generate state for CSRF protection
-        const state = crypto.randomUUID();
-        sessionStorage.setItem("kiroro_oauth_state", state);
-        sessionStorage.setItem("kiroro_client_id", clientId);
+        /**
+         * Navigate the whole page; the backend sends the user back to redirectUri with ?code&state
+         */
+        const startRedirect = () => {
+            const redirectUri = options.redirectUri || `${window.location.origin}${window.location.pathname}`;
+            pendingStorage.setItem(REDIRECT_PENDING_KEY, "1");
+            pendingStorage.setItem(RETURN_TO_KEY, window.location.href);
+            if (IS_DEV) console.log("[Kiroro] Redirecting to Threads login");
+            buildAuthUrl()
+                .then((authUrl) => {
+                    window.location.assign(`${authUrl}&mode=redirect&redirect_uri=${encodeURIComponent(redirectUri)}`);
+                })
+                .catch((err) => fail(toKiroroError(err, "AUTH_FAILED")));
+        };
 
-        // Redirect to our backend which handles the Threads OAuth
-        const authUrl = `${backend}/api/threads/authorize?client_id=${clientId}&state=${state}`;
+        if (mode === "redirect" || (mode === "auto" && isInAppBrowser())) {
+            startRedirect();
+            return;
+        }
 
-        // Open in popup for better UX
+        // Open in popup for better UX. The popup is opened synchronously (so it is not blocked)
+        // and pointed at the authorize URL once the PKCE challenge is ready.
         const width = 500;
         const height = 700;
         const left = window.screenX + (window.outerWidth - width) / 2;
         const top = window.screenY + (window.outerHeight - height) / 2;
 
         const popup = window.open(
-            authUrl,
+            "",
             "kiroro_threads_auth",
             `width=${width},height=${height},left=${left},top=${top},popup=1`
         );
 
         if (!popup) {
-            setError("Popup blocked. Please allow popups and try again.");
-            setIsLoading(false);
+            if (mode === "auto") {
+                if (IS_DEV) console.log("[Kiroro] Popup blocked, falling back to redirect");
+                startRedirect();
+                return;
+            }
+            fail(new KiroroError("POPUP_BLOCKED", "Popup blocked. Please allow popups and try again."));
             return;
         }
 
+        buildAuthUrl()
+            .then((authUrl) => popup.location.replace(authUrl))
+            .catch((err) => {
+                popup.close();
+                fail(toKiroroError(err, "AUTH_FAILED"));
+            });
+
+        const rejectPopup = (authErr: KiroroAuthError) => {
+            clearPendingLogin();
+            setAuthError(authErr);
+            setError(authErr);
+            setIsLoading(false);
+            popup.close();
+            window.removeEventListener("message", handleMessage);
+        };
+
         // Listen for callback message from popup
         const handleMessage = (event: MessageEvent) => {
             if (event.origin !== backend) return;
 
             if (event.data.type === "KIRORO_AUTH_SUCCESS") {
-                const { token, user: authUser } = event.data;
-
-                // Store session
-                const session: StoredSession = {
-                    accessToken: token,
-                    user: authUser,
-                    expiresAt: Date.now() + 60 * 60 * 1000 // 1 hour
-                };
-                localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
-
-                setAccessToken(token);
-                setUser(authUser);
-                setIsLoading(false);
+                // SECURITY: Logins started here carry a PKCE challenge, so a session handed over
+                // without the code exchange did not prove possession of the verifier
+                rejectPopup(new KiroroAuthError("PKCE_EXCHANGE_REQUIRED", "Login must complete with the PKCE code exchange."));
+                return;
+            }
+
+            if (event.data.type === "KIRORO_AUTH_CODE") {
+                // SECURITY: The response must belong to the login we started
+                if (event.data.state !== state) {
+                    rejectPopup(new KiroroAuthError("STATE_MISMATCH", "OAuth state does not match the pending login."));
+                    return;
+                }
 
+                // Popup handed back the code: exchange it here with the PKCE verifier
                 popup.close();
                 window.removeEventListener("message", handleMessage);
+                handleCallback(event.data.code, clientId, backend, event.data.state);
             } else if (event.data.type === "KIRORO_AUTH_ERROR") {
-                setError(event.data.error || "Authentication failed");
+                clearPendingLogin();
+                setError(new KiroroError("AUTH_FAILED", event.data.error || "Authentication failed"));
                 setIsLoading(false);
                 popup.close();
                 window.removeEventListener("message", handleMessage);
@@ -151,95 +696,113 @@ export function ThreadsAuthProvider({ children, backendUrl = KIRORO_BACKEND }: T
                 }
             }
         }, 500);
-    }, [backendUrl, user]);
+    }, [backendUrl, user, handleCallback]);
+
+    // In-flight redirect completion, shared by KiroroAuthCallback and the automatic check on mount
+    const redirectPromise = useRef<Promise<RedirectLoginResult | null> | null>(null);
 
     /**
-     * Handle OAuth callback (for redirect-based flow)
+     * Finish a redirect login: read ?code / ?error from the callback URL and exchange the code
      */
-    const handleCallback = useCallback(async (
-        code: string,
-        clientId: string,
-        customBackendUrl?: string
-    ): Promise<ThreadsAuthResponse> => {
-        const backend = customBackendUrl || backendUrl;
-        setIsLoading(true);
-        setError(null);
-
-        try {
-            const response = await fetch(`${backend}/api/threads/callback`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ code, clientId }),
-            });
-
-            const data = await response.json();
+    const completeRedirectLogin = useCallback((url?: string): Promise<RedirectLoginResult | null> => {
+        if (redirectPromise.current) return redirectPromise.current;
+
+        const callbackUrl = new URL(url ?? window.location.href);
+        const code = callbackUrl.searchParams.get("code");
+        const state = callbackUrl.searchParams.get("state") ?? undefined;
+        const oauthError = callbackUrl.searchParams.get("error");
+        const errorDescription = callbackUrl.searchParams.get("error_description");
+        if (!code && !oauthError) return Promise.resolve(null);
+
+        const clientId = pendingStorage.getItem("kiroro_client_id");
+        const returnTo = pendingStorage.getItem(RETURN_TO_KEY) || undefined;
+        pendingStorage.removeItem(REDIRECT_PENDING_KEY);
+        pendingStorage.removeItem(RETURN_TO_KEY);
+
+        // Remove the one-time code from the address bar
+        if (!url) {
+            ["code", "state", "error", "error_description"].forEach((key) => callbackUrl.searchParams.delete(key));
+            window.history.replaceState(window.history.state, "", callbackUrl.toString());
+        }
 
-            if (!response.ok || !data.success) {
-                throw new Error(data.error || "Authentication failed");
+        const run = async (): Promise<RedirectLoginResult> => {
+            if (oauthError) {
+                clearPendingLogin();
+                // access_denied: the user declined the consent screen
+                const failure = new KiroroError(
+                    oauthError === "access_denied" ? "USER_REJECTED" : "AUTH_FAILED",
+                    errorDescription || oauthError
+                );
+                setError(failure);
+                setIsLoading(false);
+                return { success: false, error: failure.message, errorCode: failure.code, failure, returnTo };
+            }
+            if (!clientId) {
+                const failure = new KiroroAuthError("NO_PENDING_LOGIN", "No pending login found for this callback.");
+                setAuthError(failure);
+                setError(failure);
+                return { success: false, error: failure.message, errorCode: failure.code, failure, returnTo };
             }
 
-            // Store session
-            const session: StoredSession = {
-                accessToken: data.token,
-                user: data.user,
-                expiresAt: Date.now() + 60 * 60 * 1000
-            };
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+            const result = await exchangeCode(code!, clientId, undefined, state);
+            return { ...result, returnTo };
+        };
 
-            setAccessToken(data.token);
-            setUser(data.user);
-            setIsLoading(false);
+        redirectPromise.current = run().finally(() => {
+            redirectPromise.current = null;
+        });
+        return redirectPromise.current;
+    }, [exchangeCode]);
 
-            return data;
-        } catch (err: any) {
-            const errorMsg = err.message || "Authentication failed";
-            setError(errorMsg);
-            setIsLoading(false);
-            return { success: false, error: errorMsg };
-        }
-    }, [backendUrl]);
+    // Finish a redirect login automatically when we land back on a page with ?code
+    useEffect(() => {
+        if (!pendingStorage.getItem(REDIRECT_PENDING_KEY)) return;
+        completeRedirectLogin();
+    }, []);
 
     /**
      * Logout - clear session
      */
     const logout = useCallback(() => {
-        localStorage.removeItem(STORAGE_KEY);
-        sessionStorage.removeItem("kiroro_oauth_state");
-        sessionStorage.removeItem("kiroro_client_id");
+        removeSession(storageRef.current);
+        syncRef.current?.post("logout");
+        clearPendingLogin();
+        pendingStorage.removeItem("kiroro_client_id");
+        pendingStorage.removeItem(REDIRECT_PENDING_KEY);
         setUser(null);
         setAccessToken(null);
+        setExpiresAt(null);
         setError(null);
+        setAuthError(null);
         if (IS_DEV) console.log("[Kiroro] Logged out");
     }, []);
 
     /**
-     * Get current access token (refresh if needed in future)
+     * Get current access token, refreshing it if it is about to expire
      */
     const getAccessToken = useCallback(async (): Promise<string | null> => {
-        // Check if token is still valid
-        try {
-            const stored = localStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const session: StoredSession = JSON.parse(stored);
-                if (session.expiresAt > Date.now() + 5 * 60 * 1000) {
-                    return session.accessToken;
-                }
-            }
-        } catch (e) {
-            // Fall through
+        const session = await readSession(storageRef.current);
+        if (!session) return null;
+
+        if (session.expiresAt > Date.now() + REFRESH_BUFFER) {
+            return session.accessToken;
         }
-        return accessToken;
-    }, [accessToken]);
+
+        // Expired or about to expire
+        return refreshSession();
+    }, [refreshSession]);
 
     return (
         <ThreadsAuthContext.Provider
             value={{
                 isLoading,
                 error,
+                authError,
                 user,
                 accessToken,
                 initiateThreadsLogin,
                 handleCallback,
+                completeRedirectLogin,
                 logout,
                 getAccessToken,
             }}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { HttpRequestError, createPublicClient, custom, encodeAbiParameters, type PublicClient } from "viem";
+import { base } from "viem/chains";
+import { assertTransferable } from "./token";
+
+const token = "0x2222222222222222222222222222222222222222";
+const owner = "0x1111111111111111111111111111111111111111";
+
+/**
+ * Public client answering balanceOf with `balance`, or failing when it is an Error
+ */
+function mockClient(balance: bigint | Error): PublicClient {
+    return createPublicClient({
+        chain: base,
+        transport: custom({
+            request: async ({ method }) => {
+                if (method !== "eth_call") throw new Error(`Unexpected ${method}`);
+                if (balance instanceof Error) throw balance;
+                return encodeAbiParameters([{ type: "uint256" }], [balance]);
+            },
+        }, { retryCount: 0 }),
+    }) as PublicClient;
+}
+
+const getDecimals = async () => 6;
+
+describe("assertTransferable", () => {
+    it("returns the balance when it covers the amount", async () => {
+        expect(await assertTransferable(mockClient(5_000_000n), { token, owner, value: 5_000_000n, getDecimals })).toBe(5_000_000n);
+    });
+
+    it("fails with INSUFFICIENT_FUNDS when the amount exceeds the balance", async () => {
+        const error = await assertTransferable(mockClient(1_000_000n), { token, owner, value: 1_500_000n, getDecimals })
+            .catch((err) => err);
+
+        expect(error.code).toBe("INSUFFICIENT_FUNDS");
+        expect(error.message).toContain("Transfer of 1.5 exceeds the balance of 1");
+    });
+
+    it("fails with NETWORK_ERROR when the balance cannot be read", async () => {
+        const outage = new HttpRequestError({ url: "https://rpc.test", status: 503 });
+
+        const error = await assertTransferable(mockClient(outage), { token, owner, value: 1n, getDecimals })
+            .catch((err) => err);
+
+        expect(error.code).toBe("NETWORK_ERROR");
+    });
+});
@@ -0,0 +1,33 @@
+import { erc20Abi, formatUnits, type PublicClient } from "viem";
+import { KiroroError, toKiroroError } from "./errors";
+
+/**
+ * Checks that `owner` holds at least `value` of a token before a transfer, reading the
+ * balance from the chain. A failed read fails the check (NETWORK_ERROR) rather than skipping it.
+ */
+export async function assertTransferable(
+    publicClient: PublicClient,
+    { token, owner, value, getDecimals }: {
+        token: `0x${string}`;
+        owner: `0x${string}`;
+        value: bigint;
+        /** Token decimals, for the error message */
+        getDecimals: () => Promise<number>;
+    }
+): Promise<bigint> {
+    let balance: bigint;
+    try {
+        balance = await publicClient.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [owner] });
+    } catch (err) {
+        throw toKiroroError(err, "NETWORK_ERROR");
+    }
+
+    if (value > balance) {
+        const decimals = await getDecimals();
+        throw new KiroroError(
+            "INSUFFICIENT_FUNDS",
+            `Transfer of ${formatUnits(value, decimals)} exceeds the balance of ${formatUnits(balance, decimals)}`
+        );
+    }
+    return balance;
+}
@@ -1,6 +1,18 @@
 "use client";
 
-import type { Abi, TransactionReceipt, Chain } from "viem";
+import type {
+    Abi,
+    Chain,
+    ContractFunctionArgs,
+    ContractFunctionName,
+    ContractFunctionReturnType,
+    GetValue,
+    SignableMessage,
+    TransactionReceipt,
+} from "viem";
+import type { KiroroAuthError } from "./threads-auth";
+import type { KiroroError, KiroroErrorCode } from "./errors";
+import type { KiroroStorage } from "./storage";
 
 /**
  * Kiroro SDK Type Definitions - v2.0
@@ -40,25 +52,48 @@ export interface KiroroConfig {
     backendUrl?: string;
     /** Enable gasless transactions (requires Pro tier or higher) */
     gasless?: boolean;
+    /** Simulate sendTransaction / writeContract before the wallet prompt and reject calls that would revert */
+    simulateTransactions?: boolean;
     /** Custom appearance options */
     appearance?: {
         theme?: "dark" | "light";
         accentColor?: string;
         logo?: string;
     };
-    /** Supported chains (defaults to Base) */
+    /** Supported chains, including custom viem `Chain` definitions (defaults to SUPPORTED_CHAINS) */
     chains?: Chain[];
-    /** Default chain (defaults to Base) */
+    /** Default chain (defaults to the first entry of `chains`, i.e. Base) */
     defaultChain?: Chain;
     /** Supported Solana clusters */
     solanaClusters?: SolanaCluster[];
+    /** Gateways used to resolve ipfs:// and ar:// token metadata (default: ipfs.io and arweave.net) */
+    gateways?: MetadataGateways;
+    /**
+     * How login opens the Threads consent screen (default: "popup").
+     * "auto" uses a redirect in in-app browsers (Threads, Instagram, ...) and when popups are blocked.
+     */
+    loginMode?: KiroroLoginMode;
+    /** Callback URL for redirect logins (default: the page login was started from) */
+    redirectUri?: string;
+    /** Called when the Threads session expires and cannot be refreshed */
+    onSessionExpired?: () => void;
+    /** Threads Graph API base URL (default: https://graph.threads.net/v1.0) */
+    threadsApiUrl?: string;
+    /** Where the Threads session is persisted (default: localStorage). See createCookieStorage, createEncryptedStorage, ... */
+    storage?: KiroroStorage;
     /** Paymaster configuration for gasless transactions */
     paymaster?: {
+        /** ERC-7677 paymaster service URL (pm_getPaymasterStubData / pm_getPaymasterData) */
         url: string;
+        /** Context passed to the paymaster service (e.g. a sponsorship policy ID) */
         context?: Record<string, unknown>;
+        /** Send as a user-paid transaction if sponsorship is refused (default: false, which throws) */
+        fallbackToUserPaid?: boolean;
     };
 }
 
+export type KiroroLoginMode = "popup" | "redirect" | "auto";
+
 // ============================================
 // Auth Context Types
 // ============================================
@@ -68,12 +103,17 @@ export interface KiroroAuthContextType {
     isAuthenticated: boolean;
     isLoading: boolean;
     isValidated: boolean;
-    error: string | null;
+    /** Invalid API key, unreachable backend or failed login (branch on error.code) */
+    error: KiroroError | null;
     projectName: string | null;
     tier: string | null;
     login: () => void;
     logout: () => void;
     getAccessToken: () => Promise<string | null>;
+    /** Set when a login response failed state, nonce or PKCE verification */
+    authError: KiroroAuthError | null;
+    /** Exchange an OAuth code from a redirect callback for a session (state is verified against the pending login) */
+    handleCallback: (code: string, state?: string) => Promise<ThreadsAuthResponse>;
 }
 
 // ============================================
@@ -95,14 +135,38 @@ export interface KiroroWalletContextType {
     // Transactions
     /** Send a native token transfer or raw transaction */
     sendTransaction: (request: SendTransactionRequest) => Promise<`0x${string}`>;
-    /** Call a smart contract function */
-    writeContract: <TAbi extends Abi>(request: WriteContractRequest<TAbi>) => Promise<`0x${string}`>;
+    /** Call a smart contract function (function name, args and value are checked against the ABI) */
+    writeContract: <
+        const TAbi extends Abi,
+        TFunctionName extends ContractFunctionName<TAbi, WriteStateMutability>,
+        const TArgs extends ContractFunctionArgs<TAbi, WriteStateMutability, TFunctionName>,
+    >(request: WriteContractRequest<TAbi, TFunctionName, TArgs>) => Promise<`0x${string}`>;
+    /** Read a view / pure function on the current chain (or request.chainId), with the return type inferred from the ABI */
+    readContract: <
+        const TAbi extends Abi,
+        TFunctionName extends ContractFunctionName<TAbi, ReadStateMutability>,
+        const TArgs extends ContractFunctionArgs<TAbi, ReadStateMutability, TFunctionName>,
+    >(request: ReadContractRequest<TAbi, TFunctionName, TArgs>) => Promise<ContractFunctionReturnType<TAbi, ReadStateMutability, TFunctionName, TArgs>>;
+
+    // Batched calls (EIP-5792 style)
+    /** Send several calls atomically in one user operation */
+    sendCalls: (request: SendCallsRequest) => Promise<SendCallsResult>;
+    /** Call several contract functions atomically in one user operation */
+    writeContracts: (request: WriteContractsRequest) => Promise<SendCallsResult>;
+    /** Get the status of a batch sent with sendCalls / writeContracts */
+    getCallsStatus: (id: string) => Promise<CallsStatus>;
+    /** Simulate a contract write or transaction from the smart wallet, without sending it */
+    simulate: (request: WriteContractRequest<Abi> | SendTransactionRequest) => Promise<SimulationResult>;
 
     // Signing
-    /** Sign a plain text message */
-    signMessage: (message: string) => Promise<`0x${string}`>;
+    /** Sign a text message, or raw bytes passed as `{ raw }` (EIP-191) */
+    signMessage: (message: SignableMessage) => Promise<`0x${string}`>;
     /** Sign EIP-712 typed data */
     signTypedData: (typedData: TypedDataDefinition) => Promise<`0x${string}`>;
+    /** Verify a message signature from an EOA or smart wallet (default signer: this wallet) */
+    verifyMessage: (message: string, signature: `0x${string}`, signer?: `0x${string}`) => Promise<boolean>;
+    /** Verify an EIP-712 signature from an EOA or smart wallet (default signer: this wallet) */
+    verifyTypedData: (typedData: TypedDataDefinition, signature: `0x${string}`, signer?: `0x${string}`) => Promise<boolean>;
 
     // Chain management
     /** Switch to a different chain */
@@ -126,21 +190,104 @@ export interface SendTransactionRequest {
     data?: `0x${string}`;
     /** Override gasless setting for this transaction */
     gasless?: boolean;
+    /** Simulate before prompting and reject if it would revert (default: KiroroConfig.simulateTransactions) */
+    simulate?: boolean;
 }
 
-export interface WriteContractRequest<TAbi extends Abi> {
+export type WriteStateMutability = "nonpayable" | "payable";
+export type ReadStateMutability = "pure" | "view";
+
+/** `args` is required when the function takes arguments */
+type ContractArgsParameter<TArgs> = readonly [] extends TArgs ? { args?: TArgs } : { args: TArgs };
+
+/**
+ * Contract write. With a const ABI, `functionName` and `args` are inferred from it and
+ * `value` (in wei) is only allowed on payable functions.
+ */
+export type WriteContractRequest<
+    TAbi extends Abi = Abi,
+    TFunctionName extends ContractFunctionName<TAbi, WriteStateMutability> = ContractFunctionName<TAbi, WriteStateMutability>,
+    TArgs extends ContractFunctionArgs<TAbi, WriteStateMutability, TFunctionName> = ContractFunctionArgs<TAbi, WriteStateMutability, TFunctionName>,
+> = {
     /** Contract address */
     address: `0x${string}`;
     /** Contract ABI */
     abi: TAbi;
     /** Function name to call */
-    functionName: string;
-    /** Function arguments */
-    args?: readonly unknown[];
-    /** Value in wei to send with the call */
-    value?: bigint;
+    functionName: TFunctionName;
     /** Override gasless setting for this transaction */
     gasless?: boolean;
+    /** Simulate before prompting and reject with the decoded revert (default: KiroroConfig.simulateTransactions) */
+    simulate?: boolean;
+} & ContractArgsParameter<TArgs> & GetValue<TAbi, TFunctionName>;
+
+/**
+ * Contract read (view / pure functions only)
+ */
+export type ReadContractRequest<
+    TAbi extends Abi = Abi,
+    TFunctionName extends ContractFunctionName<TAbi, ReadStateMutability> = ContractFunctionName<TAbi, ReadStateMutability>,
+    TArgs extends ContractFunctionArgs<TAbi, ReadStateMutability, TFunctionName> = ContractFunctionArgs<TAbi, ReadStateMutability, TFunctionName>,
+> = {
+    /** Contract address */
+    address: `0x${string}`;
+    /** Contract ABI */
+    abi: TAbi;
+    /** Function name to call */
+    functionName: TFunctionName;
+    /** Chain to read from (default: the wallet's current chain) */
+    chainId?: number;
+    /** Read at a past block (default: latest) */
+    blockNumber?: bigint;
+} & ContractArgsParameter<TArgs>;
+
+/** A single call in a batch */
+export interface KiroroCall {
+    /** Target address */
+    to: `0x${string}`;
+    /** Value in wei */
+    value?: bigint;
+    /** Encoded call data */
+    data?: `0x${string}`;
+}
+
+export interface SendCallsRequest {
+    /** Calls executed in order, all-or-nothing */
+    calls: readonly KiroroCall[];
+    /** Override gasless setting for this batch */
+    gasless?: boolean;
+}
+
+export interface WriteContractsRequest {
+    /** Contract calls executed in order, all-or-nothing */
+    contracts: readonly Omit<WriteContractRequest<Abi>, "gasless" | "simulate">[];
+    /** Override gasless setting for this batch */
+    gasless?: boolean;
+}
+
+export interface SendCallsResult {
+    /** Batch identifier (the hash of the transaction that included the user operation) */
+    id: string;
+}
+
+export interface CallsStatus {
+    /** Batch identifier */
+    id: string;
+    /** Chain the batch was sent on */
+    chainId: number;
+    /** `pending` until included, then `success` or `failure` (the whole batch reverted) */
+    status: "pending" | "success" | "failure";
+    /** Batches from the smart wallet are always atomic */
+    atomic: true;
+    /** Receipts once the batch is included */
+    receipts?: TransactionReceipt[];
+}
+
+export interface SimulationResult<TResult = unknown> {
+    /** Decoded return value (raw return data for plain transactions) */
+    result: TResult;
+    /** Estimated gas of the call (excluding user operation overhead) */
+    gas: bigint;
 }
 
 /** EIP-712 Typed Data Definition */
@@ -180,6 +327,14 @@ export interface ThreadsAuthResponse {
     success: boolean;
     /** The actual Threads Access Token (valid for ~60 days) to be used for data fetching */
     token?: string;
+    /** Token used to obtain a new access token from /api/threads/refresh */
+    refreshToken?: string;
+    /** Access token expiry (epoch seconds, epoch ms or ISO string) */
+    expiresAt?: number | string;
+    /** Access token lifetime in seconds (used when expiresAt is absent) */
+    expiresIn?: number;
+    /** Nonce sent with the authorize request, echoed back by the backend */
+    nonce?: string;
     user?: {
         id: string;
         username: string;
@@ -187,6 +342,103 @@ export interface ThreadsAuthResponse {
         isVerified: boolean;
     };
     error?: string;
+    /** Why the login failed */
+    errorCode?: KiroroErrorCode;
+}
+
+/**
+ * Proof that a Threads account controls a wallet (signed EIP-4361 message)
+ */
+export interface KiroroWalletLink {
+    address: `0x${string}`;
+    chainId: number;
+    threadsUsername: string;
+    /** The signed SIWE message */
+    message: string;
+    signature: `0x${string}`;
+    /** When the backend verified the link (epoch ms) */
+    linkedAt: number;
+}
+
+// ============================================
+// Threads Data Types
+// ============================================
+
+export interface ThreadsProfile {
+    id: string;
+    username: string;
+    name?: string;
+    threads_profile_picture_url?: string;
+    threads_biography?: string;
+}
+
+export type ThreadsMediaType = "TEXT_POST" | "IMAGE" | "VIDEO" | "CAROUSEL_ALBUM" | "AUDIO" | "REPOST_FACADE";
+
+export interface ThreadsPost {
+    id: string;
+    media_product_type?: "THREADS";
+    media_type?: ThreadsMediaType;
+    media_url?: string;
+    permalink?: string;
+    username?: string;
+    text?: string;
+    /** ISO 8601 timestamp */
+    timestamp?: string;
+    shortcode?: string;
+    thumbnail_url?: string;
+    is_quote_post?: boolean;
+    children?: { data: { id: string }[] };
+}
+
+export interface ThreadsReply extends ThreadsPost {
+    has_replies?: boolean;
+    is_reply?: boolean;
+    root_post?: { id: string };
+    replied_to?: { id: string };
+    hide_status?: "NOT_HUSHED" | "UNHUSHED" | "HIDDEN" | "COVERED" | "BLOCKED" | "RESTRICTED";
+}
+
+export type ThreadsPublishMedia =
+    | { type: "IMAGE"; url: string; altText?: string }
+    | { type: "VIDEO"; url: string; altText?: string };
+
+export interface ThreadsPublishRequest {
+    /** Post text (up to 500 characters) */
+    text?: string;
+    /** One image / video, or 2-20 items for a carousel */
+    media?: ThreadsPublishMedia | ThreadsPublishMedia[];
+    /** Publish as a reply to this post */
+    replyToId?: string;
+    /** Quote this post */
+    quotePostId?: string;
+}
+
+export interface ThreadsPublishResult {
+    /** ID of the published post */
+    id: string;
+    /** ID of the media container it was published from */
+    containerId: string;
+}
+
+export interface ThreadsContainerStatus {
+    id: string;
+    status: "IN_PROGRESS" | "FINISHED" | "PUBLISHED" | "ERROR" | "EXPIRED";
+    error_message?: string;
+}
+
+export interface ThreadsPublishingLimit {
+    quota_usage: number;
+    config: { quota_total: number; quota_duration: number };
+}
+
+/** A page of a Threads Graph API edge */
+export interface ThreadsPage<T> {
+    data: T[];
+    paging?: {
+        cursors?: { before?: string; after?: string };
+        next?: string;
+        previous?: string;
+    };
 }
 
 // ============================================
@@ -211,3 +463,130 @@ export interface KiroroSolanaContextType {
     isConnected: boolean;
 }
 
+
+// ============================================
+// Portfolio Types
+// ============================================
+
+/** ERC-20 token tracked by useKiroroPortfolio (symbol and decimals are read from the contract when omitted) */
+export interface PortfolioToken {
+    address: `0x${string}`;
+    symbol?: string;
+    decimals?: number;
+}
+
+export interface PortfolioBalance {
+    /** EVM chain ID, or "solana" for the SOL balance */
+    chainId: number | "solana";
+    /** Token contract, null for the native currency */
+    token: `0x${string}` | null;
+    symbol: string;
+    decimals: number;
+    /** Balance in the smallest unit (wei, lamports) */
+    balance: bigint;
+    /** Balance in whole units, e.g. "1.5" */
+    formatted: string;
+}
+
+// ============================================
+// Permit Types
+// ============================================
+
+/** Signed EIP-2612 permit, for `permit(owner, spender, value, deadline, signature)` */
+export interface PermitSignature {
+    owner: `0x${string}`;
+    spender: `0x${string}`;
+    value: bigint;
+    nonce: bigint;
+    /** Unix time (seconds) after which the permit is invalid */
+    deadline: bigint;
+    signature: `0x${string}`;
+}
+
+/** Permit2 `PermitDetails` */
+export interface Permit2Details {
+    token: `0x${string}`;
+    /** uint160 */
+    amount: bigint;
+    /** Unix time (seconds) the allowance expires */
+    expiration: number;
+    nonce: number;
+}
+
+/** Permit2 `PermitSingle` */
+export interface Permit2Single {
+    details: Permit2Details;
+    spender: `0x${string}`;
+    /** Unix time (seconds) after which the signature is invalid */
+    sigDeadline: bigint;
+}
+
+/** Permit2 `PermitBatch` */
+export interface Permit2Batch {
+    details: Permit2Details[];
+    spender: `0x${string}`;
+    sigDeadline: bigint;
+}
+
+/** Signed Permit2 permit, for `permit(owner, permit, signature)` */
+export interface Permit2Signature<TPermit extends Permit2Single | Permit2Batch = Permit2Single> {
+    owner: `0x${string}`;
+    permit: TPermit;
+    signature: `0x${string}`;
+}
+
+export interface Permit2Options {
+    /** Unix time (seconds) the allowance expires (default: in 30 days) */
+    expiration?: number;
+    /** Unix time (seconds) after which the signature is invalid (default: in 30 minutes) */
+    sigDeadline?: bigint;
+}
+
+// ============================================
+// Approval Types
+// ============================================
+
+/** Outstanding ERC-20 allowance granted by the user */
+export interface TokenApproval {
+    chainId: number;
+    token: `0x${string}`;
+    spender: `0x${string}`;
+    /** Current allowance in base units */
+    allowance: bigint;
+    /** Allowance is the maximum uint256 */
+    isUnlimited: boolean;
+    symbol?: string;
+    decimals?: number;
+    /** Allowance in whole tokens ("unlimited" for unlimited approvals) */
+    formatted?: string;
+    /** Block of the latest Approval event */
+    blockNumber: bigint;
+}
+
+// ============================================
+// NFT Metadata Types
+// ============================================
+
+export interface MetadataGateways {
+    /** IPFS gateway, e.g. "https://ipfs.io/ipfs/" */
+    ipfs?: string;
+    /** Arweave gateway, e.g. "https://arweave.net/" */
+    arweave?: string;
+}
+
+export interface NftAttribute {
+    trait_type?: string;
+    value: string | number | boolean;
+    display_type?: string;
+}
+
+/** Token metadata (ERC-721 / ERC-1155 JSON) with its image URL resolved through the gateways */
+export interface NftMetadata {
+    name?: string;
+    description?: string;
+    /** HTTP(S) or data: URL, ready for <img src> */
+    image?: string;
+    attributes: NftAttribute[];
+    /** Metadata JSON as returned */
+    raw: Record<string, unknown>;
+}
@@ -0,0 +1,154 @@
+import {
+    BaseError,
+    HttpRequestError,
+    LimitExceededRpcError,
+    ResourceUnavailableRpcError,
+    SocketClosedError,
+    TimeoutError,
+    WebSocketRequestError,
+    createPublicClient,
+    custom,
+    http,
+    type Chain,
+    type EIP1193RequestFn,
+    type PublicClient,
+} from "viem";
+import { verifyTypedData } from "viem/actions";
+import { KiroroError } from "./errors";
+import type { TypedDataDefinition } from "./types";
+
+/**
+ * Where signatures are checked: an existing viem client, or a chain (and optional RPC URL)
+ */
+export interface KiroroVerifyClientOptions {
+    client?: PublicClient;
+    chain?: Chain;
+    rpcUrl?: string;
+}
+
+// Clients created from { chain, rpcUrl }, shared across calls
+const clients = new Map<string, PublicClient>();
+
+function resolveClient(options: KiroroVerifyClientOptions): PublicClient {
+    if (options.client) return options.client;
+    if (!options.chain) {
+        throw new KiroroError("INVALID_REQUEST", "Pass a client or a chain to verify signatures against.");
+    }
+
+    const key = `${options.chain.id}:${options.rpcUrl ?? ""}`;
+    let client = clients.get(key);
+    if (!client) {
+        client = createPublicClient({ chain: options.chain, transport: http(options.rpcUrl) }) as PublicClient;
+        clients.set(key, client);
+    }
+    return client;
+}
+
+// The RPC could not answer: the signature was not checked, which is not the same as invalid
+const TRANSPORT_ERRORS = [
+    HttpRequestError,
+    TimeoutError,
+    WebSocketRequestError,
+    SocketClosedError,
+    LimitExceededRpcError,
+    ResourceUnavailableRpcError,
+];
+
+function isTransportError(error: unknown): boolean {
+    return error instanceof BaseError
+        && !!error.walk((cause) => TRANSPORT_ERRORS.some((type) => cause instanceof type));
+}
+
+/**
+ * Runs a verification, telling RPC failures apart from invalid signatures.
+ *
+ * viem reports any failed validator call as an invalid signature, so the requests go
+ * through a client that records transport failures. Those are thrown as NETWORK_ERROR.
+ */
+async function runVerification(
+    options: KiroroVerifyClientOptions,
+    verify: (client: PublicClient) => Promise<boolean>
+): Promise<boolean> {
+    const client = resolveClient(options);
+    const request: EIP1193RequestFn = client.request;
+
+    let transportError: unknown;
+    const watched = createPublicClient({
+        chain: client.chain,
+        // The wrapped client already retries
+        transport: custom({
+            request: async (args) => {
+                try {
+                    return await request(args);
+                } catch (err) {
+                    if (isTransportError(err)) transportError = err;
+                    throw err;
+                }
+            },
+        }, { retryCount: 0 }),
+    });
+
+    let valid: boolean;
+    try {
+        valid = await verify(watched);
+    } catch (err) {
+        if (!transportError && !isTransportError(err)) {
+            // Malformed signatures are invalid
+            return false;
+        }
+        transportError ??= err;
+        valid = false;
+    }
+
+    if (!valid && transportError) {
+        throw new KiroroError("NETWORK_ERROR", "Could not reach the RPC to verify the signature.", transportError);
+    }
+    return valid;
+}
+
+export interface VerifyKiroroMessageParameters extends KiroroVerifyClientOptions {
+    /** Wallet that signed (the smart wallet address for Kiroro wallets) */
+    address: `0x${string}`;
+    message: string;
+    signature: `0x${string}`;
+}
+
+export interface VerifyKiroroTypedDataParameters extends KiroroVerifyClientOptions {
+    address: `0x${string}`;
+    typedData: TypedDataDefinition;
+    signature: `0x${string}`;
+}
+
+/**
+ * Verifies a personal_sign signature from an EOA, a deployed smart wallet (ERC-1271)
+ * or a not yet deployed smart wallet (ERC-6492 wrapped signature).
+ *
+ * Works in the browser and on Node; the chain must be the one the wallet signed on.
+ * Resolves false for an invalid signature and throws a NETWORK_ERROR KiroroError when the RPC fails.
+ *
+ * @example
+ * ```ts
+ * const valid = await verifyKiroroMessage({ chain: base, address, message, signature });
+ * ```
+ */
+export async function verifyKiroroMessage(parameters: VerifyKiroroMessageParameters): Promise<boolean> {
+    const { address, message, signature } = parameters;
+    return runVerification(parameters, (client) => client.verifyMessage({ address, message, signature }));
+}
+
+/**
+ * Verifies an EIP-712 signature from an EOA, ERC-1271 or ERC-6492 (counterfactual) smart wallet
+ */
+export async function verifyKiroroTypedData(parameters: VerifyKiroroTypedDataParameters): Promise<boolean> {
+    const { address, typedData, signature } = parameters;
+    // EIP712Domain is derived from the domain
+    const { EIP712Domain: _domain, ...types } = typedData.types;
+    return runVerification(parameters, (client) => verifyTypedData<Record<string, unknown>, string, Chain | undefined>(client, {
+        address,
+        signature,
+        domain: typedData.domain,
+        types,
+        primaryType: typedData.primaryType,
+        message: typedData.message,
+    }));
+}
@@ -24,110 +24,175 @@
  */
 
 import { createConnector } from "@wagmi/core";
-import type { Chain } from "viem";
-import { base, baseSepolia, arbitrum, optimism, polygon, mainnet } from "viem/chains";
+import { numberToHex, type Chain } from "viem";
+import { createChainRegistry, DEFAULT_CHAINS } from "./chains";
+import { KiroroError } from "./errors";
+import {
+    createKiroroEip1193Provider,
+    KIRORO_WALLET_CAPABILITIES,
+    type KiroroEip1193Provider,
+} from "./eip1193";
 
 // Supported chains
-const KIRORO_SUPPORTED_CHAINS = [base, baseSepolia, arbitrum, optimism, polygon, mainnet] as const;
+const KIRORO_SUPPORTED_CHAINS = DEFAULT_CHAINS;
 
 interface KiroroConnectorOptions {
     /** Custom name for the connector (default: "Kiroro") */
     name?: string;
-    /** Chains to support (defaults to all Kiroro-supported chains) */
+    /** Chains to support (defaults to the chains in the Wagmi config). Pass the same list as KiroroConfig.chains. */
     chains?: readonly Chain[];
+    /** Default chain (defaults to the first supported chain). Pass the same chain as KiroroConfig.defaultChain. */
+    defaultChain?: Chain;
 }
 
 /**
  * Creates a Wagmi connector for the Kiroro embedded wallet.
  * 
  * Note: This connector works in conjunction with KiroroProvider.
- * The wallet will be automatically available after the user logs in.
+ * Requests are signed by the smart wallet of the mounted KiroroProvider,
+ * and account / chain changes there are forwarded to Wagmi.
  */
 export function kiroroWagmiConnector(options: KiroroConnectorOptions = {}) {
     const connectorName = options.name ?? "Kiroro";
 
-    return createConnector((config) => ({
-        id: "kiroro",
-        name: connectorName,
-        type: "kiroro" as const,
-
-        async connect({ chainId } = {}) {
-            const accounts = await this.getAccounts();
-            const chain = chainId
-                ? config.chains.find((c) => c.id === chainId) ?? config.chains[0]
-                : config.chains[0];
-
-            return {
-                accounts,
-                chainId: chain.id,
-            };
-        },
-
-        async disconnect() {
-            // Disconnection is handled by KiroroProvider's logout
-        },
-
-        async getAccounts(): Promise<readonly `0x${string}`[]> {
-            try {
-                const stored = localStorage.getItem("kiroro_threads_session");
-                if (stored) {
-                    const session = JSON.parse(stored);
-                    if (session.user?.walletAddress) {
-                        return [session.user.walletAddress as `0x${string}`];
-                    }
+    return createConnector<KiroroEip1193Provider>((config) => {
+        // Same registry rules as KiroroProvider
+        const registry = createChainRegistry({
+            chains: options.chains ?? config.chains,
+            defaultChain: options.defaultChain,
+        });
+
+        let provider: KiroroEip1193Provider | undefined;
+        let accountsChanged: ((accounts: string[]) => void) | undefined;
+        let chainChanged: ((chainId: string) => void) | undefined;
+
+        return {
+            id: "kiroro",
+            name: connectorName,
+            type: "kiroro" as const,
+
+            async connect({ chainId, withCapabilities } = {}) {
+                const provider = await this.getProvider();
+                const accounts = (await provider.request({ method: "eth_requestAccounts" })) as `0x${string}`[];
+
+                if (!accountsChanged) {
+                    accountsChanged = this.onAccountsChanged.bind(this);
+                    provider.on("accountsChanged", accountsChanged);
                 }
-            } catch {
-                // Ignore parsing errors
-            }
-            return [];
-        },
-
-        async getChainId() {
-            return base.id;
-        },
-
-        async getProvider() {
-            return undefined;
-        },
-
-        async isAuthorized() {
-            try {
+                if (!chainChanged) {
+                    chainChanged = this.onChainChanged.bind(this);
+                    provider.on("chainChanged", chainChanged);
+                }
+
+                let currentChainId = await this.getChainId();
+                if (chainId && chainId !== currentChainId) {
+                    const chain = await this.switchChain!({ chainId });
+                    currentChainId = chain.id;
+                }
+
+                return {
+                    accounts: (withCapabilities
+                        ? accounts.map((address) => ({ address, capabilities: {} }))
+                        : accounts) as never,
+                    chainId: currentChainId,
+                };
+            },
+
+            async disconnect() {
+                // Logging out is handled by KiroroProvider's logout
+                const provider = await this.getProvider();
+                if (accountsChanged) {
+                    provider.removeListener("accountsChanged", accountsChanged);
+                    accountsChanged = undefined;
+                }
+                if (chainChanged) {
+                    provider.removeListener("chainChanged", chainChanged);
+                    chainChanged = undefined;
+                }
+            },
+
+            async getAccounts(): Promise<readonly `0x${string}`[]> {
+                const provider = await this.getProvider();
+                return provider.request({ method: "eth_accounts" });
+            },
+
+            async getChainId() {
+                const provider = await this.getProvider();
+                return Number(await provider.request({ method: "eth_chainId" }));
+            },
+
+            async getProvider() {
+                if (!provider) {
+                    provider = createKiroroEip1193Provider();
+                }
+                return provider;
+            },
+
+            async isAuthorized() {
+                try {
+                    const accounts = await this.getAccounts();
+                    return accounts.length > 0;
+                } catch {
+                    return false;
+                }
+            },
+
+            onAccountsChanged(accounts: string[]) {
+                if (accounts.length === 0) {
+                    this.onDisconnect();
+                    return;
+                }
+                const typedAccounts = accounts.map(a => a as `0x${string}`);
+                config.emitter.emit("change", { accounts: typedAccounts });
+            },
+
+            onChainChanged(chainId: string) {
+                const id = Number(chainId);
+                config.emitter.emit("change", { chainId: id });
+            },
+
+            async onConnect(connectInfo: { chainId: string }) {
                 const accounts = await this.getAccounts();
-                return accounts.length > 0;
-            } catch {
-                return false;
-            }
-        },
-
-        onAccountsChanged(accounts: string[]) {
-            const typedAccounts = accounts.map(a => a as `0x${string}`);
-            config.emitter.emit("change", { accounts: typedAccounts });
-        },
-
-        onChainChanged(chainId: string) {
-            const id = Number(chainId);
-            config.emitter.emit("change", { chainId: id });
-        },
-
-        onConnect(connectInfo: { chainId: string }) {
-            config.emitter.emit("connect", {
-                chainId: Number(connectInfo.chainId),
-            });
-        },
-
-        onDisconnect() {
-            config.emitter.emit("disconnect");
-        },
-
-        async switchChain({ chainId }: { chainId: number }) {
-            const chain = config.chains.find((c) => c.id === chainId);
-            if (!chain) {
-                throw new Error(`Chain ${chainId} not supported`);
-            }
-            return chain;
-        },
-    }));
+                if (accounts.length === 0) return;
+
+                config.emitter.emit("connect", {
+                    accounts,
+                    chainId: Number(connectInfo.chainId),
+                });
+            },
+
+            onDisconnect() {
+                config.emitter.emit("disconnect");
+            },
+
+            /**
+             * EIP-5792 capabilities: every supported chain can execute atomic batches
+             * (`wallet_sendCalls`) through the ERC-4337 smart wallet
+             */
+            async getCapabilities() {
+                return Object.fromEntries(
+                    registry.chains.map((chain) => [chain.id, KIRORO_WALLET_CAPABILITIES])
+                ) as Record<number, typeof KIRORO_WALLET_CAPABILITIES>;
+            },
+
+            async switchChain({ chainId }: { chainId: number }) {
+                const chain = registry.getChain(chainId);
+                if (!chain || !config.chains.some((c) => c.id === chainId)) {
+                    throw new KiroroError("CHAIN_NOT_SUPPORTED", `Chain ${chainId} not supported`);
+                }
+
+                const provider = await this.getProvider();
+                await provider.request({
+                    method: "wallet_switchEthereumChain",
+                    params: [{ chainId: numberToHex(chainId) }],
+                });
+                return chain;
+            },
+        };
+    });
 }
 
 // Re-export for convenience
-export { KIRORO_SUPPORTED_CHAINS };
+export { KIRORO_SUPPORTED_CHAINS, KIRORO_WALLET_CAPABILITIES };
+export { createKiroroEip1193Provider };
+export type { KiroroEip1193Provider };
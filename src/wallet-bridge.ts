@@ -0,0 +1,61 @@
+import { defaultChainRegistry, type KiroroChainRegistry } from "./chains";
+import type { KiroroWalletContextType } from "./types";
+
+// The bridge has no React or Privy dependency, so the "/wagmi" entry
+// can read it without bundling the provider.
+
+export interface WalletBridgeState {
+    wallet: KiroroWalletContextType | null;
+    chains: KiroroChainRegistry;
+}
+
+export type WalletBridgeListener = (state: WalletBridgeState, previous: WalletBridgeState) => void;
+
+interface WalletBridge {
+    state: WalletBridgeState;
+    listeners: Set<WalletBridgeListener>;
+}
+
+// Stored on globalThis so the main and "/wagmi" bundles share one bridge
+const BRIDGE_KEY: unique symbol = Symbol.for("kiroro.walletBridge");
+
+type BridgeScope = typeof globalThis & { [BRIDGE_KEY]?: WalletBridge };
+
+function getBridge(): WalletBridge {
+    const scope = globalThis as BridgeScope;
+    if (!scope[BRIDGE_KEY]) {
+        scope[BRIDGE_KEY] = {
+            state: { wallet: null, chains: defaultChainRegistry },
+            listeners: new Set(),
+        };
+    }
+    return scope[BRIDGE_KEY];
+}
+
+/**
+ * Current wallet and chains published by the mounted KiroroProvider
+ */
+export function getWalletBridgeState(): WalletBridgeState {
+    return getBridge().state;
+}
+
+/**
+ * Replaces the published wallet state and notifies subscribers
+ */
+export function publishWalletState(state: WalletBridgeState): void {
+    const bridge = getBridge();
+    const previous = bridge.state;
+    bridge.state = state;
+    bridge.listeners.forEach((listener) => listener(state, previous));
+}
+
+/**
+ * Subscribe to wallet state changes. Returns the unsubscribe function.
+ */
+export function subscribeWalletBridge(listener: WalletBridgeListener): () => void {
+    const bridge = getBridge();
+    bridge.listeners.add(listener);
+    return () => {
+        bridge.listeners.delete(listener);
+    };
+}
@@ -1,38 +1,89 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
+import { useCallback, useEffect, useMemo } from "react";
 import { useSmartWallets } from "@privy-io/react-auth/smart-wallets";
 import { usePrivy } from "@privy-io/react-auth";
 import {
     type Abi,
+    type EncodeFunctionDataParameters,
     type Hash,
+    type ReadContractParameters,
+    type SignableMessage,
     type TransactionReceipt,
     encodeFunctionData,
-    createPublicClient,
-    http,
     isAddress,
+    isAddressEqual,
+    parseEventLogs,
 } from "viem";
-import { base, baseSepolia, arbitrum, optimism, polygon, mainnet } from "viem/chains";
+import { entryPoint07Abi } from "viem/account-abstraction";
+import { readContract as readContractAction } from "viem/actions";
+import { verifyKiroroMessage, verifyKiroroTypedData } from "./verify";
+import { simulateKiroroCall } from "./simulate";
+import { KiroroError, toKiroroError } from "./errors";
 import type {
     KiroroWalletContextType,
     SendTransactionRequest,
     WriteContractRequest,
+    ReadContractRequest,
+    SendCallsRequest,
+    WriteContractsRequest,
+    SendCallsResult,
+    CallsStatus,
+    SimulationResult,
     TypedDataDefinition,
 } from "./types";
-
-// Supported chains mapping
-const SUPPORTED_CHAINS = {
-    [base.id]: base,
-    [baseSepolia.id]: baseSepolia,
-    [arbitrum.id]: arbitrum,
-    [optimism.id]: optimism,
-    [polygon.id]: polygon,
-    [mainnet.id]: mainnet,
-} as const;
+import { useKiroroEventBus } from "./hooks/useKiroroEvents";
+import { useKiroroConfig, useKiroroChains } from "./context";
+import { SUPPORTED_CHAINS } from "./chains";
+import { useThreadsAuth } from "./threads-auth";
+import { publishWalletState } from "./wallet-bridge";
+import {
+    createKiroroPaymaster,
+    isPaymasterRejection,
+    isTierSponsored,
+    PaymasterRejectedError,
+} from "./paymaster";
+
+interface SmartWalletCall {
+    to: `0x${string}`;
+    value: bigint;
+    data: `0x${string}`;
+}
 
 // Only log in development
 const IS_DEV = typeof process !== 'undefined' && process.env?.NODE_ENV === 'development';
 
+// Batches whose chain is remembered
+const MAX_TRACKED_BATCHES = 100;
+
+// Chain each batch was sent on, shared by every useKiroroWallet instance so
+// status lookups survive a chain switch and work from any component
+const batchChains = new Map<string, number>();
+
+function trackBatchChain(id: string, chainId: number): void {
+    batchChains.set(id, chainId);
+    if (batchChains.size > MAX_TRACKED_BATCHES) {
+        batchChains.delete(batchChains.keys().next().value as string);
+    }
+}
+
+const walletNotReady = () => new KiroroError("WALLET_NOT_READY", "Wallet not ready. Please authenticate first.");
+
+/**
+ * Whether the bundle or a user operation of `sender` in it reverted.
+ * The bundle transaction succeeds even when the user operation reverts,
+ * so the UserOperationEvent emitted for the smart wallet is checked too.
+ */
+function isReceiptFailed(receipt: TransactionReceipt, sender: `0x${string}` | undefined): boolean {
+    if (receipt.status === "reverted") return true;
+
+    return parseEventLogs({
+        abi: entryPoint07Abi,
+        eventName: "UserOperationEvent",
+        logs: receipt.logs,
+    }).some((log) => (!sender || isAddressEqual(log.args.sender, sender)) && !log.args.success);
+}
+
 /**
  * Hook to access Kiroro wallet transaction capabilities
  * 
@@ -58,11 +109,20 @@ const IS_DEV = typeof process !== 'undefined' && process.env?.NODE_ENV === 'deve
 export function useKiroroWallet(): KiroroWalletContextType {
     const { client } = useSmartWallets();
     const { user: privyUser, ready: privyReady } = usePrivy();
+    const events = useKiroroEventBus();
+    const kiroro = useKiroroConfig();
+    const paymasterConfig = kiroro?.config.paymaster;
+    const chains = useKiroroChains();
+
+    // ERC-7677 paymaster for sponsored transactions (only when a paymaster URL is configured)
+    const paymaster = useMemo(() => {
+        return paymasterConfig?.url ? createKiroroPaymaster(paymasterConfig) : undefined;
+    }, [paymasterConfig?.url, paymasterConfig?.context]);
 
     // Current chain ID from smart wallet client
     const chainId = useMemo(() => {
-        return client?.chain?.id ?? base.id;
-    }, [client?.chain?.id]);
+        return client?.chain?.id ?? chains.defaultChain.id;
+    }, [client?.chain?.id, chains]);
 
     // EOA address (underlying signer)
     const eoaAddress = privyUser?.wallet?.address as `0x${string}` | undefined;
@@ -78,38 +138,111 @@ export function useKiroroWallet(): KiroroWalletContextType {
     // Wallet is ready when Privy is ready and we have a smart wallet client
     const isReady = privyReady && !!client && !!smartWalletAddress;
 
+    /**
+     * Submit calls through the smart wallet, applying the gasless / paymaster settings
+     */
+    const submitCalls = useCallback(
+        async (calls: SmartWalletCall[], gaslessOverride?: boolean): Promise<Hash> => {
+            const gasless = gaslessOverride ?? kiroro?.config.gasless ?? false;
+
+            const sendUserPaid = () => calls.length === 1
+                ? client!.sendTransaction({
+                    ...calls[0],
+                    chain: client!.chain,
+                    account: client!.account!,
+                })
+                : client!.sendTransaction({ calls });
+
+            if (!gasless) {
+                return sendUserPaid();
+            }
+
+            try {
+                const tier = kiroro?.tier ?? null;
+                if (!isTierSponsored(tier)) {
+                    throw new PaymasterRejectedError(`gasless transactions are not available on the "${tier ?? "unknown"}" tier.`);
+                }
+
+                // Without a paymaster URL, sponsorship is handled by the Privy dashboard paymaster
+                if (!paymaster) {
+                    return await sendUserPaid();
+                }
+
+                if (IS_DEV) console.log("[Kiroro] Requesting sponsorship from paymaster");
+                return await client!.sendTransaction({
+                    calls,
+                    paymaster,
+                    paymasterContext: paymasterConfig?.context,
+                });
+            } catch (err: any) {
+                if (!isPaymasterRejection(err) || !paymasterConfig?.fallbackToUserPaid) {
+                    throw err;
+                }
+                console.warn("[Kiroro] Sponsorship refused, sending as a user-paid transaction:", err.message);
+                return sendUserPaid();
+            }
+        },
+        [client, kiroro?.config.gasless, kiroro?.tier, paymaster, paymasterConfig]
+    );
+
+    /**
+     * Simulate a contract write or transaction from the smart wallet and estimate its gas.
+     * Throws a TransactionSimulationError with the decoded revert if it would revert,
+     * and the usual KiroroError (e.g. NETWORK_ERROR) if the simulation could not run.
+     */
+    const simulate = useCallback(
+        async (request: WriteContractRequest<Abi> | SendTransactionRequest): Promise<SimulationResult> => {
+            if (!smartWalletAddress) {
+                throw walletNotReady();
+            }
+            return simulateKiroroCall(chains.getPublicClient(chainId), smartWalletAddress, request);
+        },
+        [smartWalletAddress, chains, chainId]
+    );
+
     /**
      * Send a transaction
      */
     const sendTransaction = useCallback(
         async (request: SendTransactionRequest): Promise<Hash> => {
             if (!client) {
-                throw new Error("[Kiroro] Wallet not ready. Please authenticate first.");
+                throw walletNotReady();
             }
 
             if (IS_DEV) console.log("[Kiroro] Sending transaction:", request);
 
-            const hash = await client.sendTransaction({
-                to: request.to,
-                value: request.value ?? BigInt(0),
-                data: request.data ?? "0x",
-                chain: client.chain,
-                account: client.account!,
-            });
+            let hash: Hash;
+            try {
+                // Preflight: reject before the wallet prompt if the call would revert
+                if (request.simulate ?? kiroro?.config.simulateTransactions) {
+                    await simulate(request);
+                }
+
+                hash = await submitCalls([{
+                    to: request.to,
+                    value: request.value ?? BigInt(0),
+                    data: request.data ?? "0x",
+                }], request.gasless);
+            } catch (err: any) {
+                const error = toKiroroError(err);
+                events.emitTransactionFailed(error);
+                throw error;
+            }
 
             if (IS_DEV) console.log("[Kiroro] Transaction sent:", hash);
+            events.emitTransactionSent(hash, [request.to]);
             return hash;
         },
-        [client]
+        [client, events, submitCalls, simulate, kiroro?.config.simulateTransactions]
     );
 
     /**
      * Write to a smart contract
      */
     const writeContract = useCallback(
-        async <TAbi extends Abi>(request: WriteContractRequest<TAbi>): Promise<Hash> => {
+        async (request: WriteContractRequest): Promise<Hash> => {
             if (!client) {
-                throw new Error("[Kiroro] Wallet not ready. Please authenticate first.");
+                throw walletNotReady();
             }
 
             if (IS_DEV) console.log("[Kiroro] Writing contract:", request.functionName, "at", request.address);
@@ -121,35 +254,154 @@ export function useKiroroWallet(): KiroroWalletContextType {
                 args: request.args ?? [],
             });
 
-            const hash = await client.sendTransaction({
-                to: request.address,
-                data: data as `0x${string}`,
-                value: request.value ?? BigInt(0),
-                chain: client.chain,
-                account: client.account!,
-            });
+            let hash: Hash;
+            try {
+                // Preflight: reject with the decoded custom error / revert string before the wallet prompt
+                if (request.simulate ?? kiroro?.config.simulateTransactions) {
+                    await simulate(request);
+                }
+
+                hash = await submitCalls([{
+                    to: request.address,
+                    data: data as `0x${string}`,
+                    value: request.value ?? BigInt(0),
+                }], request.gasless);
+            } catch (err: any) {
+                const error = toKiroroError(err);
+                events.emitTransactionFailed(error);
+                throw error;
+            }
 
             if (IS_DEV) console.log("[Kiroro] Contract write sent:", hash);
+            events.emitTransactionSent(hash, [request.address]);
             return hash;
         },
-        [client]
+        [client, events, submitCalls, simulate, kiroro?.config.simulateTransactions]
+    ) as KiroroWalletContextType["writeContract"];
+
+    /**
+     * Read from a smart contract (does not need a wallet)
+     */
+    const readContract = useCallback(
+        async (request: ReadContractRequest): Promise<unknown> => {
+            const publicClient = chains.getPublicClient(request.chainId ?? chainId);
+            const parameters: ReadContractParameters<Abi> = {
+                address: request.address,
+                abi: request.abi,
+                functionName: request.functionName,
+                args: request.args ?? [],
+                blockNumber: request.blockNumber,
+            };
+
+            try {
+                return await readContractAction(publicClient, parameters);
+            } catch (err) {
+                throw toKiroroError(err);
+            }
+        },
+        [chains, chainId]
+    ) as KiroroWalletContextType["readContract"];
+
+    /**
+     * Send several calls atomically in one user operation
+     */
+    const sendCalls = useCallback(
+        async (request: SendCallsRequest): Promise<SendCallsResult> => {
+            if (!client) {
+                throw walletNotReady();
+            }
+            if (request.calls.length === 0) {
+                throw new KiroroError("INVALID_REQUEST", "sendCalls requires at least one call.");
+            }
+
+            if (IS_DEV) console.log("[Kiroro] Sending batch of", request.calls.length, "calls");
+
+            let hash: Hash;
+            try {
+                hash = await submitCalls(request.calls.map((call) => ({
+                    to: call.to,
+                    value: call.value ?? BigInt(0),
+                    data: call.data ?? "0x",
+                })), request.gasless);
+            } catch (err: any) {
+                const error = toKiroroError(err);
+                events.emitTransactionFailed(error);
+                throw error;
+            }
+
+            if (IS_DEV) console.log("[Kiroro] Batch sent:", hash);
+            trackBatchChain(hash, chainId);
+            events.emitTransactionSent(hash, request.calls.map((call) => call.to));
+            return { id: hash };
+        },
+        [client, chainId, events, submitCalls]
+    );
+
+    /**
+     * Call several contract functions atomically in one user operation
+     */
+    const writeContracts = useCallback(
+        async (request: WriteContractsRequest): Promise<SendCallsResult> => {
+            const calls = request.contracts.map((contract) => {
+                const parameters: EncodeFunctionDataParameters<Abi> = {
+                    abi: contract.abi,
+                    functionName: contract.functionName,
+                    args: contract.args ?? [],
+                };
+                return { to: contract.address, value: contract.value, data: encodeFunctionData(parameters) };
+            });
+
+            return sendCalls({ calls, gasless: request.gasless });
+        },
+        [sendCalls]
+    );
+
+    /**
+     * Get the status of a batch sent with sendCalls / writeContracts
+     */
+    const getCallsStatus = useCallback(
+        async (id: string): Promise<CallsStatus> => {
+            const batchChainId = batchChains.get(id) ?? chainId;
+            const publicClient = chains.getPublicClient(batchChainId);
+
+            let receipt: TransactionReceipt;
+            try {
+                receipt = await publicClient.getTransactionReceipt({ hash: id as Hash });
+            } catch {
+                // Not included yet
+                return { id, chainId: batchChainId, status: "pending", atomic: true };
+            }
+
+            return {
+                id,
+                chainId: batchChainId,
+                status: isReceiptFailed(receipt, smartWalletAddress) ? "failure" : "success",
+                atomic: true,
+                receipts: [receipt],
+            };
+        },
+        [chainId, chains, smartWalletAddress]
     );
 
     /**
      * Sign a message
      */
     const signMessage = useCallback(
-        async (message: string): Promise<Hash> => {
+        async (message: SignableMessage): Promise<Hash> => {
             if (!client) {
-                throw new Error("[Kiroro] Wallet not ready. Please authenticate first.");
+                throw walletNotReady();
             }
 
             if (IS_DEV) console.log("[Kiroro] Signing message");
 
-            // @ts-ignore - Privy smart wallet client has slightly different interface
-            const signature = await client.signMessage({ message });
-
-            return signature;
+            try {
+                // Privy declares a string message, but hands it to the smart account's
+                // signMessage unchanged, which also accepts { raw } bytes
+                const signPrivyMessage = client.signMessage as (args: { message: SignableMessage }) => Promise<Hash>;
+                return await signPrivyMessage({ message });
+            } catch (err) {
+                throw toKiroroError(err);
+            }
         },
         [client]
     );
@@ -160,37 +412,73 @@ export function useKiroroWallet(): KiroroWalletContextType {
     const signTypedData = useCallback(
         async (typedData: TypedDataDefinition): Promise<Hash> => {
             if (!client) {
-                throw new Error("[Kiroro] Wallet not ready. Please authenticate first.");
+                throw walletNotReady();
             }
 
             if (IS_DEV) console.log("[Kiroro] Signing typed data");
 
-            // @ts-ignore - Privy smart wallet client has slightly different interface
-            const signature = await client.signTypedData(typedData as any);
-
-            return signature;
+            try {
+                // @ts-ignore - Privy smart wallet client has slightly different interface
+                return await client.signTypedData(typedData as any);
+            } catch (err) {
+                throw toKiroroError(err);
+            }
         },
         [client]
     );
 
+    /**
+     * Verify a message signature (EOA, ERC-1271 or ERC-6492) on the current chain.
+     * Defaults to checking against this wallet.
+     */
+    const verifyMessage = useCallback(
+        (message: string, signature: Hash, signer?: `0x${string}`): Promise<boolean> => {
+            const expected = signer ?? address;
+            if (!expected) {
+                throw new KiroroError("WALLET_NOT_READY", "No address to verify against. Pass the signer or authenticate first.");
+            }
+            return verifyKiroroMessage({ client: chains.getPublicClient(chainId), address: expected, message, signature });
+        },
+        [address, chains, chainId]
+    );
+
+    /**
+     * Verify an EIP-712 signature (EOA, ERC-1271 or ERC-6492) on the current chain
+     */
+    const verifyTypedData = useCallback(
+        (typedData: TypedDataDefinition, signature: Hash, signer?: `0x${string}`): Promise<boolean> => {
+            const expected = signer ?? address;
+            if (!expected) {
+                throw new KiroroError("WALLET_NOT_READY", "No address to verify against. Pass the signer or authenticate first.");
+            }
+            return verifyKiroroTypedData({ client: chains.getPublicClient(chainId), address: expected, typedData, signature });
+        },
+        [address, chains, chainId]
+    );
+
     /**
      * Switch to a different chain
      */
     const switchChain = useCallback(
         async (targetChainId: number): Promise<void> => {
             if (!client) {
-                throw new Error("[Kiroro] Wallet not ready. Please authenticate first.");
+                throw walletNotReady();
             }
 
-            const chain = SUPPORTED_CHAINS[targetChainId as keyof typeof SUPPORTED_CHAINS];
+            const chain = chains.getChain(targetChainId);
             if (!chain) {
-                throw new Error(`[Kiroro] Chain ${targetChainId} is not supported.`);
+                throw new KiroroError("CHAIN_NOT_SUPPORTED", `Chain ${targetChainId} is not supported.`);
             }
 
             if (IS_DEV) console.log("[Kiroro] Switching to chain:", chain.name);
-            await client.switchChain({ id: targetChainId });
+            try {
+                await client.switchChain({ id: targetChainId });
+            } catch (err) {
+                throw toKiroroError(err, "CHAIN_NOT_SUPPORTED");
+            }
+            events.emitChainChanged(targetChainId);
         },
-        [client]
+        [client, events, chains]
     );
 
     /**
@@ -198,21 +486,29 @@ export function useKiroroWallet(): KiroroWalletContextType {
      */
     const waitForTransaction = useCallback(
         async (hash: Hash): Promise<TransactionReceipt> => {
-            const chain = SUPPORTED_CHAINS[chainId as keyof typeof SUPPORTED_CHAINS] ?? base;
-
-            const publicClient = createPublicClient({
-                chain,
-                transport: http(),
-            });
+            const publicClient = chains.getPublicClient(chainId);
 
             if (IS_DEV) console.log("[Kiroro] Waiting for transaction:", hash);
 
-            const receipt = await publicClient.waitForTransactionReceipt({ hash });
+            let receipt: TransactionReceipt;
+            try {
+                receipt = await publicClient.waitForTransactionReceipt({ hash });
+            } catch (err: any) {
+                const error = toKiroroError(err);
+                events.emitTransactionFailed(error, hash);
+                throw error;
+            }
 
             if (IS_DEV) console.log("[Kiroro] Transaction confirmed:", receipt.status);
+
+            if (isReceiptFailed(receipt, smartWalletAddress)) {
+                events.emitTransactionFailed(new KiroroError("TRANSACTION_REVERTED", `Transaction ${hash} reverted.`), hash);
+            } else {
+                events.emitTransactionConfirmed(hash, receipt);
+            }
             return receipt;
         },
-        [chainId]
+        [chainId, events, chains, smartWalletAddress]
     );
 
     return {
@@ -226,10 +522,19 @@ export function useKiroroWallet(): KiroroWalletContextType {
         // Transactions
         sendTransaction,
         writeContract,
+        readContract,
+        simulate,
+
+        // Batched calls
+        sendCalls,
+        writeContracts,
+        getCallsStatus,
 
         // Signing
         signMessage,
         signTypedData,
+        verifyMessage,
+        verifyTypedData,
 
         // Chain management
         switchChain,
@@ -239,5 +544,25 @@ export function useKiroroWallet(): KiroroWalletContextType {
     };
 }
 
+/**
+ * Publishes the current Kiroro wallet to the EIP-1193 provider.
+ * Mounted automatically by KiroroProvider.
+ */
+export function KiroroWalletBridge() {
+    const wallet = useKiroroWallet();
+    const chains = useKiroroChains();
+    // Disconnect as soon as the Threads session ends (also when logged out in another tab)
+    const { user } = useThreadsAuth();
+
+    useEffect(() => {
+        publishWalletState({ wallet: wallet.isReady && user ? wallet : null, chains });
+    }, [wallet, chains, user]);
+
+    // Logged out / unmounted
+    useEffect(() => () => publishWalletState({ wallet: null, chains }), [chains]);
+
+    return null;
+}
+
 // Export supported chains for consumer convenience
 export { SUPPORTED_CHAINS };